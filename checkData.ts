@@ -1,41 +1,82 @@
 /**
  * Check Existing Sandbox Data
  *
- * Shows what groups, modules, and enrollments exist in the local database.
- * Use this to determine the correct CONFIG values for seed scripts.
+ * Shows what groups, modules, and enrollments exist in the local database,
+ * plus sandbox state: seeded vs. real students, recent events, responses per
+ * assignment mode, velocity view rows, and the configured GROUP_CODES.
+ * Use this to determine the correct CONFIG values for seed scripts, or pass
+ * --json / --markdown for a report scripts and the skill can read.
  *
- * ONLY runs against local database (localhost/127.0.0.1).
+ * ONLY runs against a local database (host/port allowlist in seed/safety.ts).
  *
- * Usage: npx tsx ~/.claude/skills/seed-sandbox-data/checkData.ts
+ * Usage (from the podsie project directory, which resolves the seed config's imports):
+ *   npx tsx --tsconfig tsconfig.json ~/.claude/skills/seed-sandbox-data/checkData.ts [--json | --markdown]
+ *     [--days 45] [--timezone America/New_York]
  */
 
 import { config } from "dotenv";
 import { drizzle } from "drizzle-orm/postgres-js";
 import { sql } from "drizzle-orm";
 import postgres from "postgres";
+import { parseArgs } from "node:util";
+import { DEFAULT_CONFIG } from "./seed/config";
+import { assertLocalDatabase } from "./seed/safety";
+import { addDays, dateInTimezone, isValidTimezone } from "./seed/timezone";
 
 // Load environment from the project directory
 config({ path: `${process.cwd()}/.env` });
 
 // ============================================================================
-// SAFETY CHECK - Only run against local database
+// OPTIONS
 // ============================================================================
-const POSTGRES_URL = process.env.POSTGRES_URL;
-if (!POSTGRES_URL) {
-  console.error("❌ POSTGRES_URL not found in environment");
+let format: "text" | "json" | "markdown";
+/** Days before today broken down per day (totals by type cover all time); defaults to the seed window */
+let eventDays = DEFAULT_CONFIG.DAYS_TO_SEED;
+/** Timezone whose calendar days the per-day breakdown uses */
+let timezone = DEFAULT_CONFIG.SCHOOL_TIMEZONE;
+try {
+  const { values } = parseArgs({
+    args: process.argv.slice(2),
+    options: {
+      json: { type: "boolean" },
+      markdown: { type: "boolean" },
+      days: { type: "string" },
+      timezone: { type: "string" },
+    },
+  });
+  if (values.json && values.markdown) {
+    throw new Error("pass at most one of --json or --markdown");
+  }
+  format = values.json ? "json" : values.markdown ? "markdown" : "text";
+  if (values.days !== undefined) {
+    if (!/^\d+$/.test(values.days.trim())) {
+      throw new Error(`--days expects a whole number (got "${values.days}")`);
+    }
+    eventDays = Number(values.days);
+  }
+  if (values.timezone !== undefined) {
+    if (!isValidTimezone(values.timezone)) {
+      throw new Error(`--timezone expects an IANA timezone like America/New_York (got "${values.timezone}")`);
+    }
+    timezone = values.timezone;
+  }
+} catch (err) {
+  console.error(`Invalid arguments: ${(err as Error).message}`);
+  console.error("Usage: checkData.ts [--json | --markdown] [--days <n>] [--timezone <tz>]");
   process.exit(1);
 }
 
-if (
-  !POSTGRES_URL.includes("localhost") &&
-  !POSTGRES_URL.includes("127.0.0.1")
-) {
-  console.error("❌ SAFETY: This script only runs against LOCAL databases!");
-  console.error("   POSTGRES_URL must contain 'localhost' or '127.0.0.1'");
-  process.exit(1);
+// Reports own stdout; progress output moves to stderr
+const printResult = console.log;
+if (format !== "text") {
+  console.log = console.error;
 }
 
-console.log("✅ Safety check passed - running against local database\n");
+// ============================================================================
+// SAFETY CHECK - Only run against local database (see seed/safety.ts)
+// ============================================================================
+assertLocalDatabase();
+const POSTGRES_URL = process.env.POSTGRES_URL!;
 
 // ============================================================================
 // DATABASE CONNECTION
@@ -44,83 +85,327 @@ const client = postgres(POSTGRES_URL, { prepare: false, max: 1 });
 const db = drizzle(client);
 
 // ============================================================================
-// MAIN FUNCTION
+// REPORT
 // ============================================================================
-async function checkData() {
-  console.log("📊 Checking existing sandbox data...\n");
 
-  // Check groups
-  console.log("=== Groups ===");
+/** Email pattern of students created by the seed scripts (seed/writer.ts) */
+const SEEDED_STUDENT_EMAIL = "sandbox.%@test.local";
+
+interface GroupReport {
+  id: number;
+  name: string;
+  code: string;
+  seededStudents: number;
+  realStudents: number;
+  /** Rows in mastery_checks_by_enrollment_daily (null if the view is missing) */
+  masteryCheckDailyRows: number | null;
+}
+
+interface GroupCodeReport {
+  groupId: number;
+  code: string;
+  /** The group exists and has this code */
+  present: boolean;
+  /** The group's current code (null if the group doesn't exist) */
+  actualCode: string | null;
+}
+
+interface ModuleReport {
+  id: number;
+  name: string;
+  assignments: { id: number; title: string; mode: string | null }[];
+}
+
+interface SandboxReport {
+  generatedAt: string;
+  groups: GroupReport[];
+  groupCodes: GroupCodeReport[];
+  modules: ModuleReport[];
+  events: {
+    byType: Record<string, number>;
+    /** Today and the eventDays days before it, in the school timezone, oldest first */
+    byDay: { date: string; byType: Record<string, number> }[];
+  };
+  /** Responses per assignment mode ("none" when the config has no mode) */
+  responsesByMode: Record<string, number>;
+  teachers: { email: string; name: string }[];
+}
+
+/**
+ * Query everything the report covers.
+ */
+async function buildReport(): Promise<SandboxReport> {
   const groups = await db.execute(
-    sql`SELECT id, group_name, group_code FROM groups ORDER BY id`
-  );
-  if (groups.length === 0) {
+    sql`SELECT g.id, g.group_name, g.group_code,
+               COUNT(e.id) FILTER (WHERE sp.email LIKE ${SEEDED_STUDENT_EMAIL}) AS seeded_students,
+               COUNT(e.id) FILTER (WHERE sp.email NOT LIKE ${SEEDED_STUDENT_EMAIL}) AS real_students
+        FROM groups g
+        LEFT JOIN enrollments e ON e.group_id = g.id AND e.status = 'active'
+        LEFT JOIN student_profiles sp ON sp.id = e.student_profile_id
+        GROUP BY g.id, g.group_name, g.group_code
+        ORDER BY g.id`
+  ) as { id: number; group_name: string; group_code: string; seeded_students: string; real_students: string }[];
+
+  const masteryRows = await countMasteryCheckDailyRows();
+
+  const groupReports: GroupReport[] = groups.map((g) => ({
+    id: g.id,
+    name: g.group_name,
+    code: g.group_code,
+    seededStudents: Number(g.seeded_students),
+    realStudents: Number(g.real_students),
+    masteryCheckDailyRows: masteryRows ? masteryRows.get(g.id) ?? 0 : null,
+  }));
+
+  const groupCodes: GroupCodeReport[] = Object.entries(DEFAULT_CONFIG.GROUP_CODES).map(([groupId, code]) => {
+    const group = groupReports.find((g) => g.id === Number(groupId));
+    return {
+      groupId: Number(groupId),
+      code,
+      present: group?.code === code,
+      actualCode: group?.code ?? null,
+    };
+  });
+
+  const modules = await db.execute(
+    sql`SELECT id, name FROM modules ORDER BY id`
+  ) as { id: number; name: string }[];
+  const assignments = await db.execute(
+    sql`SELECT am.module_id, a.id as assignment_id, a.title, a.config->>'mode' as mode
+        FROM assignment_modules am
+        JOIN assignments a ON a.id = am.assignment_id
+        ORDER BY am.module_id, am."order"`
+  ) as { module_id: number; assignment_id: number; title: string; mode: string | null }[];
+  const moduleReports: ModuleReport[] = modules.map((m) => ({
+    id: m.id,
+    name: m.name,
+    assignments: assignments
+      .filter((a) => a.module_id === m.id)
+      .map((a) => ({ id: a.assignment_id, title: a.title, mode: a.mode })),
+  }));
+
+  const eventTypes = await db.execute(
+    sql`SELECT type, COUNT(*) AS count FROM events GROUP BY type ORDER BY type`
+  ) as { type: string; count: string }[];
+  // School days, not the database session's (usually UTC) ones
+  const since = addDays(dateInTimezone(new Date(), timezone), -eventDays);
+  const eventsPerDay = await db.execute(
+    sql`SELECT to_char(created_at AT TIME ZONE ${timezone}, 'YYYY-MM-DD') AS date, type, COUNT(*) AS count
+        FROM events
+        WHERE (created_at AT TIME ZONE ${timezone})::date >= ${since}::date
+        GROUP BY 1, 2
+        ORDER BY 1, 2`
+  ) as { date: string; type: string; count: string }[];
+  const byDay: SandboxReport["events"]["byDay"] = [];
+  for (const row of eventsPerDay) {
+    let day = byDay.find((d) => d.date === row.date);
+    if (!day) {
+      day = { date: row.date, byType: {} };
+      byDay.push(day);
+    }
+    day.byType[row.type] = Number(row.count);
+  }
+
+  const responseModes = await db.execute(
+    sql`SELECT COALESCE(a.config->>'mode', 'none') AS mode, COUNT(DISTINCT aqr.response_id) AS count
+        FROM assignment_question_responses aqr
+        JOIN assignment_questions aq ON aq.id = aqr.assignment_question_id
+        JOIN assignments a ON a.id = aq.assignment_id
+        GROUP BY 1
+        ORDER BY 1`
+  ) as { mode: string; count: string }[];
+
+  const teachers = await db.execute(
+    sql`SELECT id, email, first_name, last_name FROM teacher_profiles ORDER BY id LIMIT 5`
+  ) as { id: string; email: string; first_name: string; last_name: string }[];
+
+  return {
+    generatedAt: new Date().toISOString(),
+    groups: groupReports,
+    groupCodes,
+    modules: moduleReports,
+    events: {
+      byType: Object.fromEntries(eventTypes.map((e) => [e.type, Number(e.count)])),
+      byDay,
+    },
+    responsesByMode: Object.fromEntries(responseModes.map((r) => [r.mode, Number(r.count)])),
+    teachers: teachers.map((t) => ({ email: t.email, name: `${t.first_name} ${t.last_name}` })),
+  };
+}
+
+/**
+ * Rows per group in the velocity view, or null if the view doesn't exist
+ * (migrations not applied).
+ */
+async function countMasteryCheckDailyRows(): Promise<Map<number, number> | null> {
+  const exists = await db.execute(
+    sql`SELECT to_regclass('public.mastery_checks_by_enrollment_daily') IS NOT NULL AS exists`
+  ) as { exists: boolean }[];
+  if (!exists[0]?.exists) return null;
+
+  const rows = await db.execute(
+    sql`SELECT e.group_id, COUNT(*) AS count
+        FROM mastery_checks_by_enrollment_daily v
+        JOIN enrollments e ON e.id = v.enrollment_id
+        GROUP BY e.group_id`
+  ) as { group_id: number; count: string }[];
+  return new Map(rows.map((r) => [r.group_id, Number(r.count)]));
+}
+
+// ============================================================================
+// OUTPUT
+// ============================================================================
+
+function printText(report: SandboxReport): void {
+  console.log("=== Groups ===");
+  if (report.groups.length === 0) {
     console.log("   No groups found.");
   } else {
-    for (const g of groups as { id: number; group_name: string; group_code: string }[]) {
-      console.log(`   ID: ${g.id} | ${g.group_name} (${g.group_code})`);
+    for (const g of report.groups) {
+      console.log(`   ID: ${g.id} | ${g.name} (${g.code})`);
     }
   }
 
-  // Check modules
   console.log("\n=== Modules ===");
-  const modules = await db.execute(
-    sql`SELECT id, name FROM modules ORDER BY id`
-  );
-  if (modules.length === 0) {
+  if (report.modules.length === 0) {
     console.log("   No modules found.");
   } else {
-    for (const m of modules as { id: number; name: string }[]) {
+    for (const m of report.modules) {
       console.log(`   ID: ${m.id} | ${m.name}`);
     }
   }
 
-  // Check enrollments by group
   console.log("\n=== Enrollments by Group ===");
-  const enrollments = await db.execute(
-    sql`SELECT g.id as group_id, g.group_name, COUNT(e.id) as student_count
-        FROM groups g
-        LEFT JOIN enrollments e ON e.group_id = g.id AND e.status = 'active'
-        GROUP BY g.id, g.group_name
-        ORDER BY g.id`
-  );
-  for (const e of enrollments as { group_id: number; group_name: string; student_count: string }[]) {
-    console.log(`   Group ${e.group_id} (${e.group_name}): ${e.student_count} students`);
+  for (const g of report.groups) {
+    console.log(
+      `   Group ${g.id} (${g.name}): ${g.seededStudents + g.realStudents} students ` +
+        `(${g.seededStudents} seeded, ${g.realStudents} real)`
+    );
   }
 
-  // Check assignments by module
   console.log("\n=== Assignments by Module ===");
-  const assignments = await db.execute(
-    sql`SELECT m.id as module_id, m.name as module_name, a.id as assignment_id, a.title, a.config->>'mode' as mode
-        FROM modules m
-        JOIN assignment_modules am ON am.module_id = m.id
-        JOIN assignments a ON a.id = am.assignment_id
-        ORDER BY m.id, am."order"`
-  );
-  let currentModule = -1;
-  for (const a of assignments as { module_id: number; module_name: string; assignment_id: number; title: string; mode: string }[]) {
-    if (a.module_id !== currentModule) {
-      console.log(`\n   Module ${a.module_id}: ${a.module_name}`);
-      currentModule = a.module_id;
+  for (const m of report.modules) {
+    if (m.assignments.length === 0) continue;
+    console.log(`\n   Module ${m.id}: ${m.name}`);
+    for (const a of m.assignments) {
+      const modeLabel = a.mode === "assessment" ? " [ASSESSMENT]" : "";
+      console.log(`      - ID ${a.id}: ${a.title}${modeLabel}`);
     }
-    const modeLabel = a.mode === "assessment" ? " [ASSESSMENT]" : "";
-    console.log(`      - ID ${a.assignment_id}: ${a.title}${modeLabel}`);
   }
 
-  // Check teacher profiles
-  console.log("\n\n=== Teacher Profiles ===");
-  const teachers = await db.execute(
-    sql`SELECT id, email, first_name, last_name FROM teacher_profiles ORDER BY id LIMIT 5`
+  console.log("\n\n=== Group Codes (velocity view) ===");
+  for (const c of report.groupCodes) {
+    const status = c.present
+      ? "present"
+      : c.actualCode === null ? "group missing" : `group has code ${c.actualCode}`;
+    console.log(`   Group ${c.groupId} -> ${c.code}: ${status}`);
+  }
+  for (const g of report.groups) {
+    if (g.masteryCheckDailyRows === null) {
+      console.log("   mastery_checks_by_enrollment_daily view not found");
+      break;
+    }
+    if (g.masteryCheckDailyRows > 0) {
+      console.log(`   Group ${g.id}: ${g.masteryCheckDailyRows} mastery_checks_by_enrollment_daily rows`);
+    }
+  }
+
+  console.log("\n=== Events by Type ===");
+  if (Object.keys(report.events.byType).length === 0) {
+    console.log("   No events found.");
+  }
+  for (const [type, count] of Object.entries(report.events.byType)) {
+    console.log(`   ${type}: ${count}`);
+  }
+
+  console.log(`\n=== Events per Day (last ${eventDays} days, ${timezone}) ===`);
+  for (const day of report.events.byDay) {
+    const counts = Object.entries(day.byType).map(([type, count]) => `${type} ${count}`);
+    console.log(`   ${day.date}: ${counts.join(", ")}`);
+  }
+
+  console.log("\n=== Responses by Assignment Mode ===");
+  for (const [mode, count] of Object.entries(report.responsesByMode)) {
+    console.log(`   ${mode}: ${count}`);
+  }
+
+  console.log("\n=== Teacher Profiles ===");
+  for (const t of report.teachers) {
+    console.log(`   ${t.email} (${t.name})`);
+  }
+}
+
+function formatMarkdown(report: SandboxReport): string {
+  const lines: string[] = [`# Sandbox Data Report`, "", `Generated ${report.generatedAt}`, ""];
+  const table = (headers: string[], rows: (string | number)[][]) => {
+    lines.push(`| ${headers.join(" | ")} |`, `|${headers.map(() => "---").join("|")}|`);
+    for (const row of rows) lines.push(`| ${row.join(" | ")} |`);
+    if (rows.length === 0) lines.push(`| ${headers.map(() => "-").join(" | ")} |`);
+    lines.push("");
+  };
+
+  lines.push("## Groups", "");
+  table(
+    ["ID", "Name", "Code", "Seeded students", "Real students", "Velocity view rows"],
+    report.groups.map((g) => [g.id, g.name, g.code, g.seededStudents, g.realStudents, g.masteryCheckDailyRows ?? "no view"])
   );
-  for (const t of teachers as { id: string; email: string; first_name: string; last_name: string }[]) {
-    console.log(`   ${t.email} (${t.first_name} ${t.last_name})`);
+
+  lines.push("## Group Codes", "");
+  table(
+    ["Group", "Configured code", "Present", "Actual code"],
+    report.groupCodes.map((c) => [c.groupId, c.code, c.present ? "yes" : "no", c.actualCode ?? "missing"])
+  );
+
+  lines.push("## Modules", "");
+  for (const m of report.modules) {
+    lines.push(`### ${m.id}: ${m.name}`, "");
+    if (m.assignments.length === 0) {
+      lines.push("No assignments.", "");
+      continue;
+    }
+    table(["ID", "Title", "Mode"], m.assignments.map((a) => [a.id, a.title, a.mode ?? "-"]));
   }
 
-  console.log("\n✅ Check complete!");
-  console.log("\n💡 Use these IDs in your seed script CONFIG:");
-  console.log("   GROUP_ID: <id from Groups above>");
-  console.log("   MODULE_ID: <id from Modules above>");
-  console.log("   TEACHER_EMAIL: <email from Teacher Profiles above>\n");
+  lines.push("## Events by Type", "");
+  table(["Type", "Count"], Object.entries(report.events.byType));
+
+  const dayTypes = [...new Set(report.events.byDay.flatMap((d) => Object.keys(d.byType)))].sort();
+  lines.push(`## Events per Day (last ${eventDays} days, ${timezone})`, "");
+  table(
+    ["Date", ...dayTypes],
+    report.events.byDay.map((d) => [d.date, ...dayTypes.map((type) => d.byType[type] ?? 0)])
+  );
+
+  lines.push("## Responses by Assignment Mode", "");
+  table(["Mode", "Responses"], Object.entries(report.responsesByMode));
+
+  lines.push("## Teachers", "");
+  table(["Email", "Name"], report.teachers.map((t) => [t.email, t.name]));
+
+  return lines.join("\n");
+}
+
+// ============================================================================
+// MAIN FUNCTION
+// ============================================================================
+async function checkData() {
+  console.log("📊 Checking existing sandbox data...\n");
+
+  const report = await buildReport();
+
+  if (format === "json") {
+    printResult(JSON.stringify(report, null, 2));
+  } else if (format === "markdown") {
+    printResult(formatMarkdown(report));
+  } else {
+    printText(report);
+
+    console.log("\n✅ Check complete!");
+    console.log("\n💡 Use these IDs as run.sh options:");
+    console.log("   --groups <ids from Groups above>");
+    console.log("   --modules <ids from Modules above>");
+    console.log("   --teacher <email from Teacher Profiles above>\n");
+  }
 
   await client.end();
   process.exit(0);
@@ -0,0 +1,170 @@
+/**
+ * Advance One School Day
+ *
+ * Appends the next school day of activity to an already seeded group without
+ * wiping anything. Each student's progress is read back from their events
+ * (their recorded answers also rebuild their KC mastery), then planAdvanceDay
+ * (seed/eventPlanner.ts) continues it by one day.
+ *
+ * The day added is the first school day (seed/calendar.ts) after the group's
+ * latest activity, never later than today; run `advance` again to keep catching up.
+ */
+
+import { sql } from "drizzle-orm";
+import {
+  Group,
+  Teacher,
+  Enrollment,
+  LessonData,
+  getDateDaysAgo,
+  toSchoolDateString,
+} from "./config";
+import { SeedContext } from "./context";
+import { classScheduleFor } from "./schedule";
+import { StudentProgress, planAdvanceDay, pointsRulesFor } from "./eventPlanner";
+import { writeSeedRecords } from "./eventWriter";
+import { enterPhase } from "./phases";
+
+/**
+ * Add one school day of activity for a group.
+ * Returns false if the group had nothing to advance (no activity yet, or already current).
+ */
+export async function advanceGroupOneDay(
+  ctx: SeedContext,
+  group: Group,
+  teacher: Teacher,
+  enrollments: Enrollment[],
+  lessonsByModule: LessonData[][]
+): Promise<boolean> {
+  const schedule = classScheduleFor(ctx.config, ctx.clock, group.id);
+  const dayOffset = await findNextSchoolDay(ctx, group, schedule.latestDay);
+  if (dayOffset === null) return false;
+
+  const date = getDateDaysAgo(ctx.clock, dayOffset);
+  console.log(`\nAdvancing ${group.group_name} to ${date}${dayOffset === 0 ? " (today)" : ""}, ${schedule.describe()}...`);
+
+  const progress = await readStudentProgress(ctx, group.id, enrollments, lessonsByModule);
+  const plan = planAdvanceDay(enrollments, lessonsByModule, progress, dayOffset, pointsRulesFor(group, teacher.id), {
+    groupId: group.id,
+    daysToSeed: ctx.config.DAYS_TO_SEED,
+    clock: ctx.clock,
+    random: ctx.random,
+    knowledge: ctx.knowledge,
+    attendance: ctx.attendance,
+    calendar: ctx.calendar,
+    schedule,
+    timeline: ctx.timeline,
+  });
+  for (const line of plan.summary) {
+    console.log(`   ${line}`);
+  }
+
+  // Record rows under the phases that normally create them, so a later
+  // `seed --only events` (etc.) replaces advanced days too
+  await enterPhase(ctx, "events");
+  await writeSeedRecords(
+    ctx.writer,
+    plan.records.filter((r) => r.type !== "POINTS_UPDATED" && r.type !== "STUDENT_MARKED_PRESENT")
+  );
+  await enterPhase(ctx, "points");
+  await writeSeedRecords(ctx.writer, plan.records.filter((r) => r.type === "POINTS_UPDATED"));
+  await enterPhase(ctx, "attendance");
+  await writeSeedRecords(ctx.writer, plan.records.filter((r) => r.type === "STUDENT_MARKED_PRESENT"));
+
+  return true;
+}
+
+/**
+ * Days ago of the first school day after the group's latest lesson activity,
+ * or null if there is no activity yet or it already reaches latestDay (today,
+ * or yesterday before today's class period starts).
+ */
+async function findNextSchoolDay(ctx: SeedContext, group: Group, latestDay: number): Promise<number | null> {
+  const result = await ctx.db.execute(
+    sql`SELECT MAX(created_at) AS last_activity FROM events
+        WHERE data->>'groupId' = ${String(group.id)}
+        AND type IN ('QUESTION_ANSWERED', 'LESSON_COMPLETED', 'ASSIGNMENT_COMPLETED')`
+  );
+  const lastActivity = (result[0] as { last_activity: string | Date | null } | undefined)?.last_activity;
+
+  if (!lastActivity) {
+    console.log(`\n${group.group_name}: no lesson activity yet (run seed first), skipping`);
+    return null;
+  }
+
+  const lastDate = toSchoolDateString(ctx.clock, new Date(lastActivity));
+  const dayOffset = ctx.calendar.nextSchoolDay(ctx.calendar.onDate(lastDate).dayOffset);
+  if (dayOffset === null || dayOffset < latestDay) {
+    const waiting = dayOffset === null ? "" : " and today's class period hasn't started";
+    console.log(`\n${group.group_name}: already has activity through ${lastDate}${waiting}, skipping`);
+    return null;
+  }
+  return dayOffset;
+}
+
+/**
+ * Read every student's correctly answered questions and completed lessons and
+ * mastery checks in a group from their events. Questions only tried (wrong
+ * attempts, or given up on) count as unanswered. Every recorded lesson answer
+ * is replayed into the knowledge tracker, oldest first, so the new day's
+ * answers continue from the student's current KC mastery.
+ */
+async function readStudentProgress(
+  ctx: SeedContext,
+  groupId: number,
+  enrollments: Enrollment[],
+  lessonsByModule: LessonData[][]
+): Promise<Map<number, StudentProgress>> {
+  const rows = await ctx.db.execute(
+    sql`SELECT type,
+               (data->>'enrollmentId')::int AS enrollment_id,
+               (data->>'assignmentId')::int AS assignment_id,
+               (data->>'questionId')::int AS question_id,
+               COALESCE((data->>'isCorrect')::boolean, true) AS is_correct
+        FROM events
+        WHERE data->>'groupId' = ${String(groupId)}
+        AND type IN ('QUESTION_ANSWERED', 'LESSON_COMPLETED', 'ASSIGNMENT_COMPLETED')
+        ORDER BY created_at`
+  );
+
+  const enrollmentsById = new Map(enrollments.map((e) => [e.id, e]));
+  const kcByQuestion = new Map(
+    lessonsByModule.flat().flatMap((lesson) => lesson.questions.map((q) => [q.id, q.kcId] as const))
+  );
+
+  const progressByEnrollment = new Map<number, StudentProgress>();
+  for (const row of rows as {
+    type: string;
+    enrollment_id: number;
+    assignment_id: number;
+    question_id: number | null;
+    is_correct: boolean;
+  }[]) {
+    let progress = progressByEnrollment.get(row.enrollment_id);
+    if (!progress) {
+      progress = { answeredByLesson: new Map(), completedLessons: new Set(), completedMasteryChecks: new Set() };
+      progressByEnrollment.set(row.enrollment_id, progress);
+    }
+
+    switch (row.type) {
+      case "QUESTION_ANSWERED": {
+        const enrollment = enrollmentsById.get(row.enrollment_id);
+        const kcId = row.question_id !== null ? kcByQuestion.get(row.question_id) : undefined;
+        if (enrollment && kcId) ctx.knowledge.observe(enrollment, kcId, row.is_correct);
+        if (!row.is_correct) break;
+
+        const answered = progress.answeredByLesson.get(row.assignment_id) ?? new Set<number>();
+        if (row.question_id !== null) answered.add(row.question_id);
+        progress.answeredByLesson.set(row.assignment_id, answered);
+        break;
+      }
+      case "LESSON_COMPLETED":
+        progress.completedLessons.add(row.assignment_id);
+        break;
+      case "ASSIGNMENT_COMPLETED":
+        progress.completedMasteryChecks.add(row.assignment_id);
+        break;
+    }
+  }
+  return progressByEnrollment;
+}
@@ -2,26 +2,31 @@
  * Assessment Seeding
  *
  * Creates assessment assignments with questions and simulates student responses.
+ *
+ * Also builds the standalone "success profile" assessment (run.sh assessment):
+ * one assessment whose students score from 100% down to ~17% in fixed steps,
+ * for checking how the assessment dashboard renders the full range.
  */
 
 import { sql } from "drizzle-orm";
-import { randomUUID } from "crypto";
 import {
-  db,
-  CONFIG,
-  ALWAYS_COMPLETE_INDICES,
-  ZERO_START_INDICES,
   Teacher,
+  Enrollment,
   Assessment,
   AssessmentQuestion,
+  Group,
   getTimestampDaysAgo,
+  getTimestampDaysFromNow,
 } from "./config";
+import { SeedContext } from "./context";
+import { classScheduleFor } from "./schedule";
 
 /**
  * Create assessment assignments with questions.
  * @param moduleIndex - Index of the module (0-based) for sequential naming
  */
 export async function createAssessments(
+  ctx: SeedContext,
   groupId: number,
   moduleId: number,
   teacher: Teacher,
@@ -32,7 +37,7 @@ export async function createAssessments(
   const title = `Unit ${unitNumber} Assessment`;
 
   console.log(`\nCreating assessment: ${title}...`);
-  const assessment = await createAssessment(0, title, groupId, moduleId, teacher);
+  const assessment = await createAssessment(ctx, 0, title, groupId, moduleId, teacher);
   console.log(`   + ${title} (${assessment.questions.length} questions)`);
 
   return [assessment];
@@ -42,6 +47,7 @@ export async function createAssessments(
  * Create a single assessment with questions.
  */
 async function createAssessment(
+  ctx: SeedContext,
   index: number,
   title: string,
   groupId: number,
@@ -49,32 +55,28 @@ async function createAssessment(
   teacher: Teacher
 ): Promise<Assessment> {
   // Create assessment assignment
-  const assessmentResult = await db.execute(
-    sql`INSERT INTO assignments (title, description, created_by, state, config)
-        VALUES (${title}, ${"Auto-generated assessment"}, ${teacher.id}, 'active',
-                ${JSON.stringify({ mode: "assessment", isOptional: false, maxAnswerAttempts: 1 })}::jsonb)
-        RETURNING id`
-  );
-  const assessmentId = (assessmentResult[0] as { id: number }).id;
+  const assessmentId = await ctx.writer.insertAssignment({
+    title,
+    description: "Auto-generated assessment",
+    createdBy: teacher.id,
+    config: { mode: "assessment", isOptional: false, maxAnswerAttempts: 1 },
+  });
 
   // Link to module
-  await db.execute(
-    sql`INSERT INTO assignment_modules (assignment_id, module_id, "order")
-        VALUES (${assessmentId}, ${moduleId}, ${CONFIG.LESSONS_TO_CREATE + index + 1})
-        ON CONFLICT DO NOTHING`
-  );
+  await ctx.writer.linkAssignmentToModule(assessmentId, moduleId, ctx.config.LESSONS_TO_CREATE + index + 1);
 
   // Assign to group
-  const launchDate = getTimestampDaysAgo(CONFIG.DAYS_TO_SEED);
-  const assignedResult = await db.execute(
-    sql`INSERT INTO assigned_assignments (assignment_id, group_id, launch_date, due_date)
-        VALUES (${assessmentId}, ${groupId}, ${launchDate}::timestamptz, NOW() + INTERVAL '30 days')
-        RETURNING id`
-  );
-  const assignedAssignmentId = (assignedResult[0] as { id: number }).id;
+  const launchDate = getTimestampDaysAgo(ctx.clock, ctx.config.DAYS_TO_SEED);
+  const dueDate = getTimestampDaysFromNow(ctx.clock, 30);
+  const assignedAssignmentId = await ctx.writer.assignToGroup({
+    assignmentId: assessmentId,
+    groupId,
+    launchDate,
+    dueDate,
+  });
 
   // Create questions
-  const questions = await createAssessmentQuestions(assessmentId, index, teacher);
+  const questions = await createAssessmentQuestions(ctx, assessmentId, index, teacher);
 
   return {
     id: assessmentId,
@@ -88,40 +90,29 @@ async function createAssessment(
  * Create questions for an assessment.
  */
 async function createAssessmentQuestions(
+  ctx: SeedContext,
   assessmentId: number,
   assessmentIndex: number,
   teacher: Teacher
 ): Promise<AssessmentQuestion[]> {
   const questions: AssessmentQuestion[] = [];
 
-  for (let q = 0; q < CONFIG.QUESTIONS_PER_ASSESSMENT; q++) {
-    const correctChoiceId = randomUUID();
+  for (let q = 0; q < ctx.config.QUESTIONS_PER_ASSESSMENT; q++) {
+    const correctChoiceId = ctx.random.uuid();
     const questionContent = {
       type: "MULTIPLE_CHOICE",
       questionText: `Assessment ${assessmentIndex + 1}, Question ${q + 1}: Solve this problem.`,
       explanation: "This is the explanation for the correct answer.",
       answerChoices: [
         { id: correctChoiceId, answerText: "Correct Answer", isCorrect: true },
-        { id: randomUUID(), answerText: "Wrong Answer A", isCorrect: false },
-        { id: randomUUID(), answerText: "Wrong Answer B", isCorrect: false },
-        { id: randomUUID(), answerText: "Wrong Answer C", isCorrect: false },
+        { id: ctx.random.uuid(), answerText: "Wrong Answer A", isCorrect: false },
+        { id: ctx.random.uuid(), answerText: "Wrong Answer B", isCorrect: false },
+        { id: ctx.random.uuid(), answerText: "Wrong Answer C", isCorrect: false },
       ],
     };
 
-    const questionResult = await db.execute(
-      sql`INSERT INTO questions (question_content, created_by, state, config)
-          VALUES (${JSON.stringify(questionContent)}::jsonb, ${teacher.id}, 'active',
-                  ${JSON.stringify({ tutorMode: false })}::jsonb)
-          RETURNING id`
-    );
-    const questionId = (questionResult[0] as { id: number }).id;
-
-    const aqResult = await db.execute(
-      sql`INSERT INTO assignment_questions (assignment_id, question_id, "order")
-          VALUES (${assessmentId}, ${questionId}, ${q + 1})
-          RETURNING id`
-    );
-    const assignmentQuestionId = (aqResult[0] as { id: number }).id;
+    const questionId = await ctx.writer.insertQuestion(questionContent, teacher.id);
+    const assignmentQuestionId = await ctx.writer.insertAssignmentQuestion(assessmentId, questionId, q + 1);
 
     questions.push({ id: questionId, assignmentQuestionId, correctChoiceId });
   }
@@ -132,12 +123,20 @@ async function createAssessmentQuestions(
 /**
  * Simulate assessment responses for students with timestamps spread across days.
  * Assessments are completed sequentially by module (all Unit 3 assessments, then Unit 4, etc.)
+ * Question N tests the module's Nth lesson KC (cycling), so a student's score
+ * follows their mastery of what the lessons taught. Responses fall within the
+ * group's class period.
+ * @param groupId - Group whose class period the responses fall in
+ * @param kcIds - KCs of the module's lesson questions, in lesson order
  * @param moduleIndex - Which module this assessment belongs to (0-based)
  * @param totalModules - Total number of modules for calculating time windows
  */
 export async function seedAssessmentResponses(
+  ctx: SeedContext,
   groupId: number,
+  enrollments: Enrollment[],
   assessments: Assessment[],
+  kcIds: number[],
   moduleIndex: number = 0,
   totalModules: number = 1
 ): Promise<void> {
@@ -145,91 +144,66 @@ export async function seedAssessmentResponses(
 
   console.log(`\nSimulating assessment responses for module ${moduleIndex + 1}...`);
   const explanationGradings = ["none", "partial", "full"] as const;
-
-  const enrollments = await db.execute(
-    sql`SELECT e.id, e.student_profile_id, sp.first_name, sp.last_name
-        FROM enrollments e
-        JOIN student_profiles sp ON e.student_profile_id = sp.id
-        WHERE e.group_id = ${groupId} AND e.status = 'active'
-        LIMIT ${CONFIG.STUDENTS_TO_CREATE}`
-  );
+  const schedule = classScheduleFor(ctx.config, ctx.clock, groupId);
 
   // Calculate time window for this module's assessments
   // Assessments happen AFTER lessons, so use the latter portion of each module's time window
-  const daysPerModule = Math.floor(CONFIG.DAYS_TO_SEED / totalModules);
-  const moduleStartDay = CONFIG.DAYS_TO_SEED - (moduleIndex + 1) * daysPerModule;
+  const daysPerModule = Math.floor(ctx.config.DAYS_TO_SEED / totalModules);
+  const moduleStartDay = ctx.config.DAYS_TO_SEED - (moduleIndex + 1) * daysPerModule;
   // Assessments happen in the last 1-2 days of each module's window
   const assessmentDayOffset = moduleStartDay + Math.floor(daysPerModule * 0.8);
 
-  for (let i = 0; i < enrollments.length; i++) {
-    const enrollment = enrollments[i] as {
-      id: number;
-      student_profile_id: string;
-      first_name: string;
-      last_name: string;
-    };
+  for (const enrollment of enrollments) {
+    const { persona } = enrollment;
 
     // Zero-start students never respond
-    if (ZERO_START_INDICES.includes(i)) {
-      console.log(`   - ${enrollment.first_name} ${enrollment.last_name}: Zero-start student`);
+    if (persona.key === "zero-start") {
+      console.log(`   - ${enrollment.name}: Zero-start student`);
       continue;
     }
 
-    // Always-complete students get 100% response rate
-    const isAlwaysComplete = ALWAYS_COMPLETE_INDICES.includes(i);
-    const responseRate = isAlwaysComplete ? 1.0 : (i % 4) / 3; // 0%, 33%, 66%, 100%
-
-    if (responseRate === 0) {
-      console.log(`   - ${enrollment.first_name} ${enrollment.last_name}: No responses`);
-      continue;
-    }
+    const responseRate = persona.assessmentResponseRate;
 
     let responsesCreated = 0;
     for (let aIdx = 0; aIdx < assessments.length; aIdx++) {
       const assessment = assessments[aIdx];
-      // Spread assessments within the assessment window (last ~20% of module time)
-      const baseDayOffset = Math.max(0, assessmentDayOffset - aIdx);
+      // Spread assessments within the assessment window (last ~20% of module time), on school days
+      const baseDayOffset = ctx.calendar.schoolDayOnOrBefore(Math.max(schedule.latestDay, assessmentDayOffset - aIdx));
 
       for (let qIdx = 0; qIdx < assessment.questions.length; qIdx++) {
         const question = assessment.questions[qIdx];
-        // Always-complete students answer all questions; others randomly skip based on rate
-        if (!isAlwaysComplete && Math.random() > responseRate) continue;
-
-        const isCorrect = Math.random() > 0.4;
-        const explanationGrading = explanationGradings[Math.floor(Math.random() * 3)];
-        const selectedChoiceId = isCorrect ? question.correctChoiceId : randomUUID();
-        const responseTimestamp = getTimestampDaysAgo(baseDayOffset, qIdx);
-
-        const responseResult = await db.execute(
-          sql`INSERT INTO responses (enrollment_id, question_id, is_correct, response_content, created_at, updated_at)
-              VALUES (
-                ${enrollment.id},
-                ${question.id},
-                ${isCorrect},
-                ${JSON.stringify({
-                  type: "multiple_choice",
-                  selectedChoiceIds: [selectedChoiceId],
-                  aiAnalysis: {
-                    explanationGrading,
-                    feedback: `Your explanation was ${explanationGrading}.`,
-                  },
-                })}::jsonb,
-                ${responseTimestamp}::timestamptz,
-                ${responseTimestamp}::timestamptz
-              )
-              RETURNING id`
-        );
-        const responseId = (responseResult[0] as { id: number }).id;
-
-        await db.execute(
-          sql`INSERT INTO assignment_question_responses (response_id, assignment_question_id, assigned_assignment_id, created_at, updated_at)
-              VALUES (${responseId}, ${question.assignmentQuestionId}, ${assessment.assignedId}, ${responseTimestamp}::timestamptz, ${responseTimestamp}::timestamptz)`
-        );
+        // Students skip questions at their persona's response rate
+        if (responseRate < 1 && !ctx.random.chance(responseRate)) continue;
+
+        const isCorrect =
+          kcIds.length > 0
+            ? ctx.knowledge.attempt(enrollment, kcIds[qIdx % kcIds.length])
+            : ctx.random.chance(ctx.knowledge.chanceCorrect(enrollment));
+        const explanationGrading = ctx.random.pick(explanationGradings);
+        const selectedChoiceId = isCorrect ? question.correctChoiceId : ctx.random.uuid();
+        const responseTimestamp = schedule.at(baseDayOffset, qIdx);
+
+        await ctx.writer.insertResponse({
+          enrollmentId: enrollment.id,
+          questionId: question.id,
+          isCorrect,
+          content: {
+            type: "multiple_choice",
+            selectedChoiceIds: [selectedChoiceId],
+            aiAnalysis: {
+              explanationGrading,
+              feedback: `Your explanation was ${explanationGrading}.`,
+            },
+          },
+          timestamp: responseTimestamp,
+          assignmentQuestionId: question.assignmentQuestionId,
+          assignedAssignmentId: assessment.assignedId,
+        });
 
         responsesCreated++;
       }
     }
-    console.log(`   + ${enrollment.first_name} ${enrollment.last_name}: ${responsesCreated} responses`);
+    console.log(`   + ${enrollment.name}: ${responsesCreated} responses`);
   }
 }
 
@@ -238,6 +212,7 @@ export async function seedAssessmentResponses(
  * Creates assigned_assignments entries for the group and returns updated Assessment objects.
  */
 export async function assignAssessmentsToGroup(
+  ctx: SeedContext,
   assessments: Assessment[],
   groupId: number
 ): Promise<Assessment[]> {
@@ -245,13 +220,14 @@ export async function assignAssessmentsToGroup(
   const updatedAssessments: Assessment[] = [];
 
   for (const assessment of assessments) {
-    const launchDate = getTimestampDaysAgo(CONFIG.DAYS_TO_SEED);
-    const assignedResult = await db.execute(
-      sql`INSERT INTO assigned_assignments (assignment_id, group_id, launch_date, due_date)
-          VALUES (${assessment.id}, ${groupId}, ${launchDate}::timestamptz, NOW() + INTERVAL '30 days')
-          RETURNING id`
-    );
-    const assignedAssignmentId = (assignedResult[0] as { id: number }).id;
+    const launchDate = getTimestampDaysAgo(ctx.clock, ctx.config.DAYS_TO_SEED);
+    const dueDate = getTimestampDaysFromNow(ctx.clock, 30);
+    const assignedAssignmentId = await ctx.writer.assignToGroup({
+      assignmentId: assessment.id,
+      groupId,
+      launchDate,
+      dueDate,
+    });
 
     updatedAssessments.push({
       ...assessment,
@@ -266,22 +242,27 @@ export async function assignAssessmentsToGroup(
 /**
  * Update existing responses that lack explanation grading.
  */
-export async function updateExistingResponses(): Promise<void> {
+export async function updateExistingResponses(ctx: SeedContext): Promise<void> {
   console.log(`\nUpdating existing responses with explanation grading...`);
+  if (ctx.config.DRY_RUN) {
+    console.log("   Skipped (dry run - existing rows are never read or modified)");
+    return;
+  }
   const explanationGradings = ["none", "partial", "full"] as const;
 
-  const existingResponses = await db.execute(
+  const existingResponses = await ctx.db.execute(
     sql`SELECT id FROM responses
         WHERE response_content->'aiAnalysis'->>'explanationGrading' IS NULL
+        ORDER BY id
         LIMIT 100`
   );
 
   let updatedCount = 0;
   for (const resp of existingResponses) {
     const responseId = (resp as { id: number }).id;
-    const explanationGrading = explanationGradings[Math.floor(Math.random() * 3)];
+    const explanationGrading = ctx.random.pick(explanationGradings);
 
-    await db.execute(
+    await ctx.db.execute(
       sql`UPDATE responses
           SET response_content = response_content || ${JSON.stringify({
             aiAnalysis: {
@@ -295,3 +276,178 @@ export async function updateExistingResponses(): Promise<void> {
   }
   console.log(`   Updated ${updatedCount} existing responses`);
 }
+
+// =============================================================================
+// SUCCESS PROFILE ASSESSMENT
+// =============================================================================
+
+// One question per profile step, so every profile scores a whole number
+const SUCCESS_ASSESSMENT_QUESTIONS = 6;
+
+const QUESTION_TOPICS = [
+  "core concepts",
+  "applications",
+  "analysis skills",
+  "problem solving",
+  "critical thinking",
+  "synthesis",
+];
+
+/** Share of questions answered correctly, assigned to students round-robin */
+const SUCCESS_PROFILES: { correctRatio: number; label: string }[] = [
+  { correctRatio: 1.0, label: "excellent" }, // 6/6 correct
+  { correctRatio: 0.83, label: "very good" }, // 5/6 correct
+  { correctRatio: 0.67, label: "good" }, // 4/6 correct
+  { correctRatio: 0.5, label: "average" }, // 3/6 correct
+  { correctRatio: 0.33, label: "struggling" }, // 2/6 correct
+  { correctRatio: 0.17, label: "needs help" }, // 1/6 correct
+];
+
+/**
+ * Create a success-profile assessment in a module and assign it to every
+ * group: launched a week ago, due in a week, placed after the module's last
+ * assignment. Each question gets its own knowledge component.
+ */
+export async function createSuccessProfileAssessment(
+  ctx: SeedContext,
+  groups: Group[],
+  moduleId: number,
+  teacher: Teacher,
+  title: string
+): Promise<Assessment[]> {
+  console.log(`\nCreating assessment: ${title} (module ${moduleId})...`);
+
+  const assessmentId = await ctx.writer.insertAssignment({
+    title,
+    description: "Comprehensive unit assessment covering all topics",
+    createdBy: teacher.id,
+    config: { mode: "assessment", isOptional: false },
+  });
+
+  // Dry runs can't read the module, so they place it after the seeded lessons
+  const maxOrder = ctx.config.DRY_RUN
+    ? ctx.config.STANDALONE_LESSONS_TO_CREATE + ctx.config.LESSONS_TO_CREATE * 2
+    : ((await ctx.db.execute(
+        sql`SELECT COALESCE(MAX("order"), 0) AS max_order FROM assignment_modules WHERE module_id = ${moduleId}`
+      ))[0] as { max_order: number }).max_order;
+  await ctx.writer.linkAssignmentToModule(assessmentId, moduleId, maxOrder + 1);
+  console.log(`   + Linked to module at order ${maxOrder + 1}`);
+
+  const questions: AssessmentQuestion[] = [];
+  for (let q = 0; q < SUCCESS_ASSESSMENT_QUESTIONS; q++) {
+    const topic = QUESTION_TOPICS[q % QUESTION_TOPICS.length];
+    const correctChoiceId = ctx.random.uuid();
+    const questionContent = {
+      type: "MULTIPLE_CHOICE",
+      questionText: `Assessment Q${q + 1}: Which best demonstrates understanding of ${topic}?`,
+      explanation: "This question tests understanding of key concepts from the unit.",
+      answerChoices: [
+        { id: correctChoiceId, answerText: "Correct answer", isCorrect: true },
+        { id: ctx.random.uuid(), answerText: "Plausible distractor A", isCorrect: false },
+        { id: ctx.random.uuid(), answerText: "Plausible distractor B", isCorrect: false },
+        { id: ctx.random.uuid(), answerText: "Plausible distractor C", isCorrect: false },
+      ],
+    };
+
+    const questionId = await ctx.writer.insertQuestion(questionContent, teacher.id);
+    await ctx.writer.insertKnowledgeComponent(`Assessment KC: ${topic}`, questionId);
+    const assignmentQuestionId = await ctx.writer.insertAssignmentQuestion(assessmentId, questionId, q + 1);
+    questions.push({ id: questionId, assignmentQuestionId, correctChoiceId });
+    console.log(`   + Q${q + 1}: ${topic}`);
+  }
+
+  const assessments: Assessment[] = [];
+  for (const group of groups) {
+    const assignedId = await ctx.writer.assignToGroup({
+      assignmentId: assessmentId,
+      groupId: group.id,
+      launchDate: getTimestampDaysAgo(ctx.clock, 7),
+      dueDate: getTimestampDaysFromNow(ctx.clock, 7),
+    });
+    console.log(`   + Assigned to ${group.group_name} (assigned_id: ${assignedId})`);
+    assessments.push({ id: assessmentId, assignedId, title, questions });
+  }
+
+  return assessments;
+}
+
+/**
+ * Submit a success-profile assessment for every student but zero-start ones:
+ * students are ranked by persona strength and split evenly across
+ * SUCCESS_PROFILES (so high achievers get the top scores), and which
+ * questions they get right is random. Responses land in the group's latest
+ * class period on a school day.
+ * @param groupId - Group whose class period the responses fall in
+ */
+export async function seedSuccessProfileResponses(
+  ctx: SeedContext,
+  groupId: number,
+  enrollments: Enrollment[],
+  assessment: Assessment
+): Promise<void> {
+  console.log(`\nSimulating ${assessment.title} responses with varying success...`);
+  const schedule = classScheduleFor(ctx.config, ctx.clock, groupId);
+  const dayOffset = ctx.calendar.schoolDayOnOrBefore(schedule.latestDay);
+  const responseTimestamps = schedule.steps(dayOffset, 0, assessment.questions.length);
+
+  for (const enrollment of enrollments) {
+    // Zero-start students never respond
+    if (enrollment.persona.key === "zero-start") {
+      console.log(`   - ${enrollment.name}: Zero-start student`);
+    }
+  }
+
+  // Highest overall KC mastery first; ties keep their position order
+  const ranked = enrollments
+    .filter((e) => e.persona.key !== "zero-start")
+    .sort((a, b) => ctx.knowledge.overallMastery(b) - ctx.knowledge.overallMastery(a));
+
+  for (let i = 0; i < ranked.length; i++) {
+    const enrollment = ranked[i];
+    const profile = SUCCESS_PROFILES[Math.floor((i * SUCCESS_PROFILES.length) / ranked.length)];
+    const numCorrect = Math.round(profile.correctRatio * assessment.questions.length);
+    const correctIndices = new Set(
+      ctx.random.shuffle([...assessment.questions.keys()]).slice(0, numCorrect)
+    );
+
+    for (let q = 0; q < assessment.questions.length; q++) {
+      const question = assessment.questions[q];
+      const isCorrect = correctIndices.has(q);
+
+      await ctx.writer.insertResponse({
+        enrollmentId: enrollment.id,
+        questionId: question.id,
+        isCorrect,
+        content: {
+          type: "multiple_choice",
+          selectedChoiceIds: [isCorrect ? question.correctChoiceId : ctx.random.uuid()],
+        },
+        timestamp: responseTimestamps[q],
+        assignmentQuestionId: question.assignmentQuestionId,
+        assignedAssignmentId: assessment.assignedId,
+      });
+    }
+
+    console.log(`   + ${enrollment.name}: ${numCorrect}/${assessment.questions.length} correct (${profile.label})`);
+  }
+}
+
+/**
+ * Create the success-profile assessment in each module and submit it for
+ * every group's students.
+ */
+export async function seedSuccessProfileAssessments(
+  ctx: SeedContext,
+  groups: Group[],
+  moduleIds: number[],
+  teacher: Teacher,
+  enrollmentsByGroup: Map<number, Enrollment[]>,
+  title: string
+): Promise<void> {
+  for (const moduleId of moduleIds) {
+    const assessments = await createSuccessProfileAssessment(ctx, groups, moduleId, teacher, title);
+    for (let i = 0; i < groups.length; i++) {
+      await seedSuccessProfileResponses(ctx, groups[i].id, enrollmentsByGroup.get(groups[i].id)!, assessments[i]);
+    }
+  }
+}
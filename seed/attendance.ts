@@ -0,0 +1,143 @@
+/**
+ * Attendance Schedule
+ *
+ * Which school days (seed/calendar.ts) each student is in class, decided once
+ * per run and shared by every generator: lesson progress only lands on days a
+ * student is present, and the attendance phase marks them present on exactly
+ * those days. Any day a student has activity counts as present too (the
+ * question-viewed auto-mark), so attendance never contradicts the progress
+ * data. How each day is marked (auto-mark, teacher, roster import,
+ * corrections) is up to the attendance planner in seed/eventPlanner.ts.
+ *
+ * Absences follow the persona's attendanceRate and come in runs averaging
+ * absenceStreak days: a chronically absent student misses whole stretches,
+ * while others miss the odd single day. Present days without activity are
+ * the present-but-idle days.
+ */
+
+import { Enrollment, toSchoolDateString } from "./config";
+import { Clock } from "./clock";
+import { SchoolCalendar } from "./calendar";
+import { Random } from "./random";
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+/** A school day from one student's point of view */
+export interface AttendanceDay {
+  /** School date (YYYY-MM-DD, in the school's timezone) */
+  date: string;
+  /** Days ago (0 = today) */
+  dayOffset: number;
+  /** In class with activity, in class without any (present but idle), or absent */
+  status: "active" | "idle" | "absent";
+  /** First activity, or null on days without any */
+  firstActivity: string | null;
+}
+
+export interface AttendanceSchedule {
+  /** Whether the student is in class on a day (days ago, 0 = today) */
+  present(enrollment: Enrollment, dayOffset: number): boolean;
+  /** Record activity at a timestamp; the student is present that day. */
+  markActive(enrollment: Enrollment, timestamp: string): void;
+  /**
+   * Take the student's days from their existing marks (latest mark by school
+   * date) instead of sampling them; school days without a mark were absent.
+   */
+  recordMarks(enrollment: Enrollment, marks: Map<string, boolean>): void;
+  /** Every school day in the window, through today, oldest first. */
+  days(enrollment: Enrollment): AttendanceDay[];
+}
+
+interface StudentAttendance {
+  /** Sampled presence by school date */
+  scheduled: Map<string, boolean>;
+  /** Earliest activity by school date */
+  active: Map<string, string>;
+}
+
+// =============================================================================
+// SCHEDULE
+// =============================================================================
+
+/**
+ * Create an empty schedule for a seed window. Each student's days are sampled
+ * on first use from the shared generator, so a seeded run reproduces them.
+ */
+export function createAttendanceSchedule(
+  random: Random,
+  clock: Clock,
+  calendar: SchoolCalendar,
+  daysToSeed: number
+): AttendanceSchedule {
+  const students = new Map<number, StudentAttendance>();
+
+  const dateOf = (dayOffset: number): string => calendar.day(dayOffset).date;
+
+  const studentFor = (enrollment: Enrollment): StudentAttendance => {
+    let student = students.get(enrollment.id);
+    if (!student) {
+      student = { scheduled: sampleWindow(enrollment), active: new Map() };
+      students.set(enrollment.id, student);
+    }
+    return student;
+  };
+
+  // Walk the window oldest first as a two-state chain, so absences cluster
+  // into runs of absenceStreak days on average at the persona's overall rate
+  const sampleWindow = (enrollment: Enrollment): Map<string, boolean> => {
+    const { attendanceRate, absenceStreak } = enrollment.persona;
+    const absenceRate = 1 - attendanceRate;
+    const stayAbsent = 1 - 1 / absenceStreak;
+    const startAbsence = attendanceRate === 1 ? 0 : Math.min(1, absenceRate / (absenceStreak * attendanceRate));
+
+    const scheduled = new Map<string, boolean>();
+    let absent = random.chance(absenceRate);
+    for (let dayOffset = daysToSeed; dayOffset >= 0; dayOffset--) {
+      if (!calendar.isSchoolDay(dayOffset)) continue;
+      scheduled.set(dateOf(dayOffset), !absent);
+      absent = random.chance(absent ? stayAbsent : startAbsence);
+    }
+    return scheduled;
+  };
+
+  return {
+    present(enrollment, dayOffset) {
+      const student = studentFor(enrollment);
+      const date = dateOf(dayOffset);
+      if (student.active.has(date)) return true;
+      // Days outside the window (e.g. advancing past it) are independent draws
+      if (!student.scheduled.has(date)) {
+        student.scheduled.set(date, calendar.isSchoolDay(dayOffset) && random.chance(enrollment.persona.attendanceRate));
+      }
+      return student.scheduled.get(date)!;
+    },
+    markActive(enrollment, timestamp) {
+      const student = studentFor(enrollment);
+      const date = toSchoolDateString(clock, new Date(timestamp));
+      const earliest = student.active.get(date);
+      if (!earliest || timestamp < earliest) student.active.set(date, timestamp);
+    },
+    recordMarks(enrollment, marks) {
+      const student = studentFor(enrollment);
+      for (const date of student.scheduled.keys()) student.scheduled.set(date, marks.get(date) ?? false);
+    },
+    days(enrollment) {
+      const student = studentFor(enrollment);
+      const days: AttendanceDay[] = [];
+      for (let dayOffset = daysToSeed; dayOffset >= 0; dayOffset--) {
+        // No marks on weekends, holidays or breaks, even with stray activity
+        if (!calendar.isSchoolDay(dayOffset)) continue;
+        const date = dateOf(dayOffset);
+        const firstActivity = student.active.get(date);
+        if (firstActivity) {
+          days.push({ date, dayOffset, status: "active", firstActivity });
+        } else if (student.scheduled.has(date)) {
+          days.push({ date, dayOffset, status: student.scheduled.get(date) ? "idle" : "absent", firstActivity: null });
+        }
+      }
+      return days;
+    },
+  };
+}
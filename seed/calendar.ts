@@ -0,0 +1,306 @@
+/**
+ * School Calendar
+ *
+ * Which days are instructional, shared by every generator: progress, ramp-up
+ * lessons, attendance, points, assessments and Canvas responses only land on
+ * school days, so velocity shows real gaps around weekends, holidays and
+ * breaks. Loaded from a local JSON or ICS file (--calendar, or
+ * SEED_CALENDAR_FILE); without one, every weekday is a school day.
+ *
+ * A calendar has a term start (nothing is scheduled before it), single-day
+ * holidays, multi-day breaks and half days. Half days are school days with
+ * early dismissal: a lesson started on one is finished on the student's next
+ * day in class.
+ *
+ * JSON files look like:
+ *
+ *   {
+ *     "termStart": "2026-09-08",
+ *     "holidays": [{ "date": "2026-10-12", "name": "Indigenous Peoples' Day" }],
+ *     "breaks": [{ "start": "2026-11-26", "end": "2026-11-27", "name": "Thanksgiving Recess" }],
+ *     "halfDays": [{ "date": "2026-10-29", "name": "Parent-Teacher Conferences" }]
+ *   }
+ *
+ * ICS files are read event by event (all-day DTSTART/DTEND, SUMMARY,
+ * CATEGORIES): events categorized or titled "half day" / "early dismissal"
+ * are half days, "term start" / "first day of school" sets the term start,
+ * and everything else closes school for its dates (a holiday when it's one
+ * day, a break when it's longer).
+ */
+
+import fs from "fs";
+import path from "path";
+import { getDateDaysAgo } from "./config";
+import { Clock } from "./clock";
+import { addDays, daysBetween, weekdayOf } from "./timezone";
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+export interface CalendarDefinition {
+  /** First instructional day (YYYY-MM-DD), or null for none */
+  termStart: string | null;
+  holidays: { date: string; name: string }[];
+  /** Inclusive date ranges */
+  breaks: { start: string; end: string; name: string }[];
+  halfDays: { date: string; name: string }[];
+}
+
+export type CalendarDayKind = "school" | "half-day" | "weekend" | "holiday" | "break" | "before-term";
+
+export interface CalendarDay {
+  /** School date (YYYY-MM-DD) */
+  date: string;
+  /** Days ago (0 = today) */
+  dayOffset: number;
+  kind: CalendarDayKind;
+  /** Holiday, break or half-day name */
+  name: string | null;
+}
+
+export interface SchoolCalendar {
+  /** The day `dayOffset` days ago (0 = today) */
+  day(dayOffset: number): CalendarDay;
+  /** The day for a school date (YYYY-MM-DD) */
+  onDate(date: string): CalendarDay;
+  /** Whether students are in class (school days and half days) */
+  isSchoolDay(dayOffset: number): boolean;
+  isHalfDay(dayOffset: number): boolean;
+  /** School days from `from` days ago through `to` days ago, oldest first */
+  schoolDays(from: number, to: number): number[];
+  /** This day if it's a school day, else the closest one before it (this day if there is none) */
+  schoolDayOnOrBefore(dayOffset: number): number;
+  /** The closest school day before this one, or null if there is none within a year */
+  previousSchoolDay(dayOffset: number): number | null;
+  /** The closest school day after this one, or null if there is none up to today */
+  nextSchoolDay(dayOffset: number): number | null;
+  /** Summary for logs, e.g. "term starts 2026-09-08, 4 holidays, 2 breaks, 1 half day" */
+  describe(): string;
+}
+
+/** Weekdays only: the calendar without a file */
+export const WEEKDAY_CALENDAR: CalendarDefinition = {
+  termStart: null,
+  holidays: [],
+  breaks: [],
+  halfDays: [],
+};
+
+// How far previousSchoolDay looks back before giving up
+const MAX_SEARCH_DAYS = 366;
+
+// =============================================================================
+// CALENDAR
+// =============================================================================
+
+/**
+ * Create a calendar for a definition, with day offsets relative to the run
+ * clock's date in the school's timezone.
+ */
+export function createSchoolCalendar(definition: CalendarDefinition, clock: Clock): SchoolCalendar {
+  const named = new Map<string, { kind: CalendarDayKind; name: string }>();
+  for (const halfDay of definition.halfDays) {
+    named.set(halfDay.date, { kind: "half-day", name: halfDay.name });
+  }
+  for (const { start, end, name } of definition.breaks) {
+    for (const date of datesBetween(start, end)) named.set(date, { kind: "break", name });
+  }
+  for (const holiday of definition.holidays) {
+    named.set(holiday.date, { kind: "holiday", name: holiday.name });
+  }
+
+  const today = getDateDaysAgo(clock, 0);
+
+  const onDate = (date: string): CalendarDay => {
+    const dayOffset = daysBetween(date, today);
+    if (definition.termStart !== null && date < definition.termStart) {
+      return { date, dayOffset, kind: "before-term", name: null };
+    }
+    const entry = named.get(date);
+    if (entry && entry.kind !== "half-day") return { date, dayOffset, ...entry };
+    const weekday = weekdayOf(date);
+    if (weekday === 0 || weekday === 6) return { date, dayOffset, kind: "weekend", name: null };
+    return entry ? { date, dayOffset, ...entry } : { date, dayOffset, kind: "school", name: null };
+  };
+
+  const day = (dayOffset: number): CalendarDay => onDate(addDays(today, -dayOffset));
+
+  const isSchoolDay = (dayOffset: number): boolean => {
+    const { kind } = day(dayOffset);
+    return kind === "school" || kind === "half-day";
+  };
+
+  const previousSchoolDay = (dayOffset: number): number | null => {
+    for (let d = dayOffset + 1; d <= dayOffset + MAX_SEARCH_DAYS; d++) {
+      if (isSchoolDay(d)) return d;
+    }
+    return null;
+  };
+
+  return {
+    day,
+    onDate,
+    isSchoolDay,
+    isHalfDay: (dayOffset) => day(dayOffset).kind === "half-day",
+    schoolDays(from, to) {
+      const days: number[] = [];
+      for (let dayOffset = from; dayOffset >= to; dayOffset--) {
+        if (isSchoolDay(dayOffset)) days.push(dayOffset);
+      }
+      return days;
+    },
+    schoolDayOnOrBefore: (dayOffset) => (isSchoolDay(dayOffset) ? dayOffset : previousSchoolDay(dayOffset) ?? dayOffset),
+    previousSchoolDay,
+    nextSchoolDay(dayOffset) {
+      for (let d = dayOffset - 1; d >= 0; d--) {
+        if (isSchoolDay(d)) return d;
+      }
+      return null;
+    },
+    describe() {
+      const parts = [
+        definition.termStart !== null ? `term starts ${definition.termStart}` : "no term start",
+        plural(definition.holidays.length, "holiday"),
+        plural(definition.breaks.length, "break"),
+        plural(definition.halfDays.length, "half day"),
+      ];
+      return parts.join(", ");
+    },
+  };
+}
+
+/**
+ * Throw unless the seed window (daysToSeed days ago through yesterday) has a
+ * school day to put lesson progress on, e.g. when the term starts after it.
+ */
+export function assertSchoolDaysInWindow(calendar: SchoolCalendar, daysToSeed: number): void {
+  if (calendar.schoolDays(daysToSeed, 1).length > 0) return;
+  throw new Error(
+    `No school days from ${calendar.day(daysToSeed).date} to ${calendar.day(1).date} (${calendar.describe()}); ` +
+      `pass a later --as-of or more --days`
+  );
+}
+
+// =============================================================================
+// LOADING
+// =============================================================================
+
+/**
+ * Read a calendar from a .json or .ics file, or the weekday calendar for null.
+ * Throws with the file name if it can't be read or has invalid dates.
+ */
+export function loadCalendar(file: string | null): CalendarDefinition {
+  if (file === null) return WEEKDAY_CALENDAR;
+
+  let text: string;
+  try {
+    text = fs.readFileSync(file, "utf8");
+  } catch (err) {
+    throw new Error(`Could not read calendar ${file}: ${(err as Error).message}`);
+  }
+
+  const definition = path.extname(file).toLowerCase() === ".ics" ? parseIcs(text) : parseJson(file, text);
+  checkDefinition(file, definition);
+  return definition;
+}
+
+function parseJson(file: string, text: string): CalendarDefinition {
+  let raw: Partial<CalendarDefinition>;
+  try {
+    raw = JSON.parse(text) as Partial<CalendarDefinition>;
+  } catch (err) {
+    throw new Error(`Calendar ${file} is not valid JSON: ${(err as Error).message}`);
+  }
+  return {
+    termStart: raw.termStart ?? null,
+    holidays: raw.holidays ?? [],
+    breaks: raw.breaks ?? [],
+    halfDays: raw.halfDays ?? [],
+  };
+}
+
+/**
+ * All-day VEVENTs into a definition. DTEND is exclusive, as in the ICS spec;
+ * events without one last a day.
+ */
+function parseIcs(text: string): CalendarDefinition {
+  const definition: CalendarDefinition = { termStart: null, holidays: [], breaks: [], halfDays: [] };
+  // Continuation lines start with a space or tab
+  const lines = text.replace(/\r?\n[ \t]/g, "").split(/\r?\n/);
+
+  let event: Record<string, string> | null = null;
+  for (const line of lines) {
+    if (line === "BEGIN:VEVENT") {
+      event = {};
+    } else if (line === "END:VEVENT" && event) {
+      addIcsEvent(definition, event);
+      event = null;
+    } else if (event) {
+      const colon = line.indexOf(":");
+      if (colon === -1) continue;
+      // Drop parameters: "DTSTART;VALUE=DATE" -> "DTSTART"
+      const key = line.slice(0, colon).split(";")[0].toUpperCase();
+      event[key] = line.slice(colon + 1).trim();
+    }
+  }
+  return definition;
+}
+
+function addIcsEvent(definition: CalendarDefinition, event: Record<string, string>): void {
+  if (!event.DTSTART) return;
+  const start = icsDate(event.DTSTART);
+  const lastDate = event.DTEND ? addDays(icsDate(event.DTEND), -1) : start;
+  const end = lastDate < start ? start : lastDate;
+  const name = (event.SUMMARY ?? "No school").replace(/\\([,;\\])/g, "$1");
+  const label = `${event.CATEGORIES ?? ""} ${name}`;
+
+  if (/half[- ]?day|early dismissal/i.test(label)) {
+    for (const date of datesBetween(start, end)) definition.halfDays.push({ date, name });
+  } else if (/term[- ]?start|first day of school/i.test(label)) {
+    definition.termStart = start;
+  } else if (start === end) {
+    definition.holidays.push({ date: start, name });
+  } else {
+    definition.breaks.push({ start, end, name });
+  }
+}
+
+/** "20261126" or "20261126T090000Z" -> "2026-11-26" */
+function icsDate(value: string): string {
+  return `${value.slice(0, 4)}-${value.slice(4, 6)}-${value.slice(6, 8)}`;
+}
+
+function checkDefinition(file: string, definition: CalendarDefinition): void {
+  const dates = [
+    ...(definition.termStart !== null ? [definition.termStart] : []),
+    ...definition.holidays.map((h) => h.date),
+    ...definition.breaks.flatMap((b) => [b.start, b.end]),
+    ...definition.halfDays.map((h) => h.date),
+  ];
+  for (const date of dates) {
+    if (typeof date !== "string" || !/^\d{4}-\d{2}-\d{2}$/.test(date) || addDays(date, 0) !== date) {
+      throw new Error(`Calendar ${file} has an invalid date: ${String(date)} (expected YYYY-MM-DD)`);
+    }
+  }
+  for (const b of definition.breaks) {
+    if (b.end < b.start) {
+      throw new Error(`Calendar ${file}: break "${b.name}" ends (${b.end}) before it starts (${b.start})`);
+    }
+  }
+}
+
+// =============================================================================
+// HELPERS
+// =============================================================================
+
+/** Every date from start through end (inclusive) */
+function datesBetween(start: string, end: string): string[] {
+  const dates: string[] = [];
+  for (let date = start; date <= end; date = addDays(date, 1)) dates.push(date);
+  return dates;
+}
+
+function plural(count: number, noun: string): string {
+  return `${count} ${noun}${count === 1 ? "" : "s"}`;
+}
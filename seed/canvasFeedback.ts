@@ -6,16 +6,15 @@
  * This provides data for the AI Feedback Explorer sandbox page.
  */
 
-import { sql } from "drizzle-orm";
 import {
-  db,
-  CONFIG,
-  ALWAYS_COMPLETE_INDICES,
-  ZERO_START_INDICES,
   Teacher,
   Enrollment,
   getTimestampDaysAgo,
+  getTimestampDaysFromNow,
 } from "./config";
+import { SeedContext } from "./context";
+import { Random } from "./random";
+import { classScheduleFor } from "./schedule";
 
 // ============================================================================
 // Types
@@ -97,21 +96,17 @@ const CANVAS_QUESTION_PROMPTS = [
 // Helper functions
 // ============================================================================
 
-function pick<T>(arr: T[]): T {
-  return arr[Math.floor(Math.random() * arr.length)];
-}
-
-function buildAiAnalysis(isCorrect: boolean, useIS313: boolean) {
-  const thinking = isCorrect ? pick(THINKING_CORRECT) : pick(THINKING_INCORRECT);
+function buildAiAnalysis(random: Random, isCorrect: boolean, useIS313: boolean) {
+  const thinking = isCorrect ? random.pick(THINKING_CORRECT) : random.pick(THINKING_INCORRECT);
   const overallAIFeedback = isCorrect
-    ? pick(OVERALL_FEEDBACK_CORRECT)
-    : pick(OVERALL_FEEDBACK_INCORRECT);
+    ? random.pick(OVERALL_FEEDBACK_CORRECT)
+    : random.pick(OVERALL_FEEDBACK_INCORRECT);
   const studentRubric = isCorrect
-    ? pick(STUDENT_RUBRIC_CORRECT)
-    : pick(STUDENT_RUBRIC_INCORRECT);
+    ? random.pick(STUDENT_RUBRIC_CORRECT)
+    : random.pick(STUDENT_RUBRIC_INCORRECT);
   const teacherRubric = isCorrect
-    ? pick(TEACHER_RUBRIC_CORRECT)
-    : pick(TEACHER_RUBRIC_INCORRECT);
+    ? random.pick(TEACHER_RUBRIC_CORRECT)
+    : random.pick(TEACHER_RUBRIC_INCORRECT);
 
   const additionalFeedback = [
     { sectionTitle: "Student-Facing Rubric", content: studentRubric },
@@ -121,8 +116,8 @@ function buildAiAnalysis(isCorrect: boolean, useIS313: boolean) {
   if (useIS313) {
     const explanationGradings = ["none", "partial", "full"] as const;
     const explanationGrading = isCorrect
-      ? pick(["partial", "full"] as const)
-      : pick(explanationGradings);
+      ? random.pick(["partial", "full"] as const)
+      : random.pick(explanationGradings);
     return {
       thinking,
       additionalFeedback,
@@ -141,15 +136,15 @@ function buildAiAnalysis(isCorrect: boolean, useIS313: boolean) {
   };
 }
 
-function buildCanvasResponseContent(isCorrect: boolean, useIS313: boolean) {
+function buildCanvasResponseContent(random: Random, isCorrect: boolean, useIS313: boolean) {
   return {
     type: "canvas",
     canvasResponseData: {
       canvasStateHistory: [],
       finalCanvasState: {},
     },
-    overallStudentTextResponse: pick(STUDENT_TEXT_RESPONSES),
-    aiAnalysis: buildAiAnalysis(isCorrect, useIS313),
+    overallStudentTextResponse: random.pick(STUDENT_TEXT_RESPONSES),
+    aiAnalysis: buildAiAnalysis(random, isCorrect, useIS313),
   };
 }
 
@@ -161,6 +156,7 @@ function buildCanvasResponseContent(isCorrect: boolean, useIS313: boolean) {
  * Create a Canvas mastery check assignment with Canvas-type questions.
  */
 async function createCanvasAssignment(
+  ctx: SeedContext,
   groupId: number,
   moduleId: number,
   teacher: Teacher,
@@ -171,30 +167,21 @@ async function createCanvasAssignment(
   const title = `Canvas Practice ${lessonIndex + 1}`;
 
   // Create assignment with sequential mode (mastery check)
-  const assignmentResult = await db.execute(
-    sql`INSERT INTO assignments (title, description, created_by, state, config)
-        VALUES (${title}, ${"Canvas mastery check with AI feedback"}, ${teacher.id}, 'active',
-                ${JSON.stringify({ mode: "sequential", isOptional: false })}::jsonb)
-        RETURNING id`,
-  );
-  const assignmentId = (assignmentResult[0] as { id: number }).id;
+  const assignmentId = await ctx.writer.insertAssignment({
+    title,
+    description: "Canvas mastery check with AI feedback",
+    createdBy: teacher.id,
+    config: { mode: "sequential", isOptional: false },
+  });
 
   // Link to module (after standalone + paired lessons)
   const order = standaloneOffset + pairedLessonCount * 2 + lessonIndex + 1;
-  await db.execute(
-    sql`INSERT INTO assignment_modules (assignment_id, module_id, "order")
-        VALUES (${assignmentId}, ${moduleId}, ${order})
-        ON CONFLICT DO NOTHING`,
-  );
+  await ctx.writer.linkAssignmentToModule(assignmentId, moduleId, order);
 
   // Assign to group
-  const launchDate = getTimestampDaysAgo(CONFIG.DAYS_TO_SEED);
-  const assignedResult = await db.execute(
-    sql`INSERT INTO assigned_assignments (assignment_id, group_id, launch_date, due_date)
-        VALUES (${assignmentId}, ${groupId}, ${launchDate}::timestamptz, NOW() + INTERVAL '30 days')
-        RETURNING id`,
-  );
-  const assignedId = (assignedResult[0] as { id: number }).id;
+  const launchDate = getTimestampDaysAgo(ctx.clock, ctx.config.DAYS_TO_SEED);
+  const dueDate = getTimestampDaysFromNow(ctx.clock, 30);
+  const assignedId = await ctx.writer.assignToGroup({ assignmentId, groupId, launchDate, dueDate });
 
   // Create 2 Canvas questions
   const questions: { id: number; assignmentQuestionId: number }[] = [];
@@ -207,20 +194,8 @@ async function createCanvasAssignment(
       recording: "optional",
     };
 
-    const questionResult = await db.execute(
-      sql`INSERT INTO questions (question_content, created_by, state, config)
-          VALUES (${JSON.stringify(questionContent)}::jsonb, ${teacher.id}, 'active',
-                  ${JSON.stringify({ tutorMode: false })}::jsonb)
-          RETURNING id`,
-    );
-    const questionId = (questionResult[0] as { id: number }).id;
-
-    const aqResult = await db.execute(
-      sql`INSERT INTO assignment_questions (assignment_id, question_id, "order")
-          VALUES (${assignmentId}, ${questionId}, ${q + 1})
-          RETURNING id`,
-    );
-    const assignmentQuestionId = (aqResult[0] as { id: number }).id;
+    const questionId = await ctx.writer.insertQuestion(questionContent, teacher.id);
+    const assignmentQuestionId = await ctx.writer.insertAssignmentQuestion(assignmentId, questionId, q + 1);
 
     questions.push({ id: questionId, assignmentQuestionId });
   }
@@ -233,19 +208,21 @@ async function createCanvasAssignment(
  * Creates 1 Canvas mastery check per module with 2 questions each.
  */
 export async function createCanvasAssignments(
+  ctx: SeedContext,
   groupId: number,
   moduleId: number,
   teacher: Teacher,
 ): Promise<CanvasAssignment[]> {
   console.log(`\nCreating Canvas assignments for group ${groupId}, module ${moduleId}...`);
 
-  const standaloneOffset = CONFIG.STANDALONE_LESSONS_TO_CREATE;
-  const pairedLessonCount = CONFIG.LESSONS_TO_CREATE;
+  const standaloneOffset = ctx.config.STANDALONE_LESSONS_TO_CREATE;
+  const pairedLessonCount = ctx.config.LESSONS_TO_CREATE;
 
   const assignments: CanvasAssignment[] = [];
   // Create 2 canvas assignments per module for more data
   for (let i = 0; i < 2; i++) {
     const assignment = await createCanvasAssignment(
+      ctx,
       groupId,
       moduleId,
       teacher,
@@ -262,10 +239,13 @@ export async function createCanvasAssignments(
 
 /**
  * Seed Canvas responses with AI feedback for students in a group.
- * ~75% of students get responses, with a mix of correct/incorrect and IS313/non-IS313.
+ * Students whose persona submits Canvas work get responses, correct as often
+ * as their overall KC mastery predicts, with a mix of IS313/non-IS313.
  */
 export async function seedCanvasResponses(
+  ctx: SeedContext,
   groupId: number,
+  enrollments: Enrollment[],
   canvasAssignments: CanvasAssignment[],
   moduleIndex: number,
 ): Promise<void> {
@@ -273,34 +253,21 @@ export async function seedCanvasResponses(
 
   console.log(`\nSeeding Canvas AI feedback responses for group ${groupId}, module ${moduleIndex + 1}...`);
 
-  const enrollments = await db.execute(
-    sql`SELECT e.id, sp.first_name, sp.last_name
-        FROM enrollments e
-        JOIN student_profiles sp ON e.student_profile_id = sp.id
-        WHERE e.group_id = ${groupId} AND e.status = 'active'
-        LIMIT ${CONFIG.STUDENTS_TO_CREATE}`,
-  );
-
   // Use IS313 format for the first module, non-IS313 for the second
   const useIS313 = moduleIndex === 0;
+  const schedule = classScheduleFor(ctx.config, ctx.clock, groupId);
 
-  for (let i = 0; i < enrollments.length; i++) {
-    const enrollment = enrollments[i] as {
-      id: number;
-      first_name: string;
-      last_name: string;
-    };
+  for (const enrollment of enrollments) {
+    const { persona } = enrollment;
 
     // Zero-start students never respond
-    if (ZERO_START_INDICES.includes(i)) {
-      console.log(`   - ${enrollment.first_name} ${enrollment.last_name}: Zero-start student`);
+    if (persona.key === "zero-start") {
+      console.log(`   - ${enrollment.name}: Zero-start student`);
       continue;
     }
 
-    // Always-complete students always respond (override the 25% skip logic)
-    const skipForVariety = !ALWAYS_COMPLETE_INDICES.includes(i) && i % 4 === 0;
-    if (skipForVariety) {
-      console.log(`   - ${enrollment.first_name} ${enrollment.last_name}: No responses`);
+    if (!persona.submitsCanvas) {
+      console.log(`   - ${enrollment.name}: No responses (${persona.label})`);
       continue;
     }
 
@@ -308,38 +275,30 @@ export async function seedCanvasResponses(
 
     for (let aIdx = 0; aIdx < canvasAssignments.length; aIdx++) {
       const assignment = canvasAssignments[aIdx];
-      const baseDayOffset = Math.max(1, Math.floor(CONFIG.DAYS_TO_SEED * 0.3) - aIdx * 3);
+      const baseDayOffset = ctx.calendar.schoolDayOnOrBefore(
+        Math.max(1, Math.floor(ctx.config.DAYS_TO_SEED * 0.3) - aIdx * 3)
+      );
 
       for (let qIdx = 0; qIdx < assignment.questions.length; qIdx++) {
         const question = assignment.questions[qIdx];
-        // Vary correctness: ~60% correct
-        const isCorrect = Math.random() > 0.4;
-        const responseTimestamp = getTimestampDaysAgo(baseDayOffset, qIdx);
-
-        const responseContent = buildCanvasResponseContent(isCorrect, useIS313);
-
-        const responseResult = await db.execute(
-          sql`INSERT INTO responses (enrollment_id, question_id, is_correct, response_content, created_at, updated_at)
-              VALUES (
-                ${enrollment.id},
-                ${question.id},
-                ${responseContent.aiAnalysis.isCorrect},
-                ${JSON.stringify(responseContent)}::jsonb,
-                ${responseTimestamp}::timestamptz,
-                ${responseTimestamp}::timestamptz
-              )
-              RETURNING id`,
-        );
-        const responseId = (responseResult[0] as { id: number }).id;
-
-        await db.execute(
-          sql`INSERT INTO assignment_question_responses (response_id, assignment_question_id, assigned_assignment_id, created_at, updated_at)
-              VALUES (${responseId}, ${question.assignmentQuestionId}, ${assignment.assignedId}, ${responseTimestamp}::timestamptz, ${responseTimestamp}::timestamptz)`,
-        );
+        const isCorrect = ctx.random.chance(ctx.knowledge.chanceCorrect(enrollment));
+        const responseTimestamp = schedule.at(baseDayOffset, qIdx);
+
+        const responseContent = buildCanvasResponseContent(ctx.random, isCorrect, useIS313);
+
+        await ctx.writer.insertResponse({
+          enrollmentId: enrollment.id,
+          questionId: question.id,
+          isCorrect: responseContent.aiAnalysis.isCorrect,
+          content: responseContent,
+          timestamp: responseTimestamp,
+          assignmentQuestionId: question.assignmentQuestionId,
+          assignedAssignmentId: assignment.assignedId,
+        });
 
         responsesCreated++;
       }
     }
-    console.log(`   + ${enrollment.first_name} ${enrollment.last_name}: ${responsesCreated} Canvas responses`);
+    console.log(`   + ${enrollment.name}: ${responsesCreated} Canvas responses`);
   }
 }
@@ -3,26 +3,174 @@
  *
  * Removes old sandbox data before re-seeding.
  * Handles foreign key constraints in correct order.
+ *
+ * Runs are cleaned up from their manifests (seed/manifest.ts), deleting exactly
+ * the rows each run created (or, for partial runs, the rows of the phases being
+ * replaced). The title/email pattern matching below is kept
+ * only for data seeded before manifests existed (`cleanup --legacy`).
  */
 
 import { sql } from "drizzle-orm";
-import { db } from "./config";
+import { SeedContext } from "./context";
+import { RunManifest, ManifestRows, ManifestPhase, RowId, listManifests, mergeRows, countRows } from "./manifest";
+
+// =============================================================================
+// MANIFEST CLEANUP
+// =============================================================================
+
+// Postgres allows 65535 bind parameters per statement
+const DELETE_CHUNK_SIZE = 5000;
+
+/**
+ * Manifest tables in foreign-key order (children first), with the column each
+ * DELETE matches on. Link tables without their own IDs are deleted through the
+ * recorded parent they belong to.
+ */
+const DELETE_ORDER: { table: string; column: string; ids: (rows: ManifestRows) => RowId[] | undefined }[] = [
+  { table: "events", column: "id", ids: (rows) => rows.events },
+  { table: "assignment_question_responses", column: "response_id", ids: (rows) => rows.responses },
+  { table: "responses", column: "id", ids: (rows) => rows.responses },
+  { table: "assignment_questions", column: "id", ids: (rows) => rows.assignment_questions },
+  { table: "assignment_prerequisites", column: "assignment_id", ids: (rows) => rows.assignments },
+  { table: "assignment_modules", column: "assignment_id", ids: (rows) => rows.assignments },
+  { table: "assigned_assignments", column: "id", ids: (rows) => rows.assigned_assignments },
+  { table: "questions", column: "id", ids: (rows) => rows.questions },
+  { table: "knowledge_components", column: "id", ids: (rows) => rows.knowledge_components },
+  { table: "assignments", column: "id", ids: (rows) => rows.assignments },
+  { table: "enrollments", column: "id", ids: (rows) => rows.enrollments },
+  { table: "student_profiles", column: "id", ids: (rows) => rows.student_profiles },
+  { table: "auth.users", column: "id", ids: (rows) => rows["auth.users"] },
+  { table: "modules", column: "id", ids: (rows) => rows.modules },
+];
+
+/**
+ * Delete every row recorded in a run's manifest, in foreign-key order.
+ * Pacing configs are external and are not touched here.
+ */
+export async function cleanupRun(ctx: SeedContext, manifest: RunManifest): Promise<void> {
+  console.log(`Cleaning up run ${manifest.runId}...`);
+  await deleteRows(ctx, mergeRows(manifest));
+}
+
+export interface ReplacedRuns {
+  /** Runs cleaned up entirely; the caller deletes their manifests after commit */
+  removed: string[];
+  /** Runs that lost some phases; the caller saves these manifests after commit */
+  trimmed: RunManifest[];
+}
+
+/**
+ * Recorded runs that seeded any of the given groups, oldest first.
+ */
+export function findRunsForGroups(groupIds: number[]): RunManifest[] {
+  return listManifests().filter((m) => m.groupIds.some((id) => groupIds.includes(id)));
+}
+
+/**
+ * The recorded runs a seed or import for the given groups replaces. Throws if
+ * one of them also seeded other groups, since cleaning it up would delete
+ * those groups' rows too.
+ */
+export function findRunsToReplace(groupIds: number[]): RunManifest[] {
+  const runs = findRunsForGroups(groupIds);
+  for (const manifest of runs) {
+    const others = manifest.groupIds.filter((id) => !groupIds.includes(id));
+    if (others.length > 0) {
+      const allGroups = Array.from(new Set([...groupIds, ...manifest.groupIds])).sort((a, b) => a - b);
+      throw new Error(
+        `Run ${manifest.runId} also seeded group(s) ${others.join(",")}, whose rows replacing it would delete. ` +
+          `Pass --groups ${allGroups.join(",")}, or remove it first with: run.sh cleanup --run ${manifest.runId}`
+      );
+    }
+  }
+  return runs;
+}
 
 /**
- * Clean up all existing sandbox data (events, assignments, questions, KCs, students).
+ * Clean up every recorded run that seeded any of the given groups (see
+ * findRunsToReplace: none may have seeded other groups). With
+ * phases, only the rows those phases recorded are deleted and the rest of
+ * each run is kept; without, whole runs are deleted.
  */
-export async function cleanupSandboxData(
+export async function cleanupRunsForGroups(
+  ctx: SeedContext,
   groupIds: number[],
-  _moduleId: number
+  phases: ManifestPhase[] | null = null
+): Promise<ReplacedRuns> {
+  const runs = findRunsToReplace(groupIds);
+  const result: ReplacedRuns = { removed: [], trimmed: [] };
+
+  if (runs.length === 0) {
+    console.log("No previous seed runs recorded for these groups\n");
+    return result;
+  }
+
+  for (const manifest of runs) {
+    if (!phases) {
+      await cleanupRun(ctx, manifest);
+      result.removed.push(manifest.runId);
+      continue;
+    }
+
+    console.log(`Cleaning up ${phases.join(", ")} from run ${manifest.runId}...`);
+    await deleteRows(ctx, mergeRows(manifest, phases));
+
+    const trimmed: RunManifest = { ...manifest, rows: { ...manifest.rows } };
+    for (const phase of phases) delete trimmed.rows[phase];
+    if (phases.includes("pacing")) trimmed.pacing = [];
+
+    if (countRows(trimmed) === 0 && trimmed.pacing.length === 0) {
+      result.removed.push(manifest.runId);
+    } else {
+      result.trimmed.push(trimmed);
+    }
+  }
+  console.log();
+  return result;
+}
+
+/**
+ * Delete rows by table in foreign-key order, in chunks.
+ */
+async function deleteRows(ctx: SeedContext, rows: ManifestRows): Promise<void> {
+  for (const { table, column, ids } of DELETE_ORDER) {
+    const rowIds = ids(rows) ?? [];
+    let deleted = 0;
+    for (let i = 0; i < rowIds.length; i += DELETE_CHUNK_SIZE) {
+      const chunk = rowIds.slice(i, i + DELETE_CHUNK_SIZE);
+      const result = await ctx.db.execute(
+        sql`DELETE FROM ${sql.raw(table)}
+            WHERE ${sql.raw(column)} IN (${sql.join(chunk.map((id) => sql`${id}`), sql`, `)})
+            RETURNING 1`
+      );
+      deleted += result.length;
+    }
+    if (deleted > 0) {
+      console.log(`   Deleted ${deleted} rows from ${table}`);
+    }
+  }
+}
+
+// =============================================================================
+// LEGACY PATTERN CLEANUP
+// =============================================================================
+
+/**
+ * Clean up sandbox data seeded before run manifests existed
+ * (events, assignments, questions, KCs, students), matched by title and email patterns.
+ */
+export async function cleanupLegacySeedData(
+  ctx: SeedContext,
+  groupIds: number[]
 ): Promise<void> {
-  console.log("Cleaning up existing sandbox data...");
+  console.log("Cleaning up legacy sandbox data (pattern match)...");
 
-  await cleanupEvents(groupIds);
-  await cleanupSeedStudents(groupIds);
-  await cleanupSeedAssignments();
-  await cleanupCanvasAssignments();
-  await cleanupOrphanedKCs();
-  await cleanupAssessments();
+  await cleanupEvents(ctx, groupIds);
+  await cleanupSeedStudents(ctx, groupIds);
+  await cleanupSeedAssignments(ctx);
+  await cleanupCanvasAssignments(ctx);
+  await cleanupOrphanedKCs(ctx);
+  await cleanupAssessments(ctx);
 
   console.log();
 }
@@ -30,9 +178,9 @@ export async function cleanupSandboxData(
 /**
  * Delete progress events for specified groups.
  */
-async function cleanupEvents(groupIds: number[]): Promise<void> {
+async function cleanupEvents(ctx: SeedContext, groupIds: number[]): Promise<void> {
   for (const groupId of groupIds) {
-    const deletedEvents = await db.execute(
+    const deletedEvents = await ctx.db.execute(
       sql`DELETE FROM events
           WHERE type IN ('LESSON_QUESTION_SHOWN', 'QUESTION_ANSWERED', 'LESSON_COMPLETED', 'ASSIGNMENT_COMPLETED')
           AND data->>'groupId' = ${String(groupId)}
@@ -45,10 +193,10 @@ async function cleanupEvents(groupIds: number[]): Promise<void> {
 /**
  * Delete seed students (those with sandbox.*.test.local emails).
  */
-async function cleanupSeedStudents(groupIds: number[]): Promise<void> {
+async function cleanupSeedStudents(ctx: SeedContext, groupIds: number[]): Promise<void> {
   for (const groupId of groupIds) {
     // Get seed enrollments for this group
-    const seedEnrollments = await db.execute(
+    const seedEnrollments = await ctx.db.execute(
       sql`SELECT e.id, e.student_profile_id
           FROM enrollments e
           JOIN student_profiles sp ON e.student_profile_id = sp.id
@@ -63,26 +211,26 @@ async function cleanupSeedStudents(groupIds: number[]): Promise<void> {
       const enrollment = e as { id: number; student_profile_id: string };
 
       // Get ALL enrollments for this student (they might be in multiple groups)
-      const allEnrollments = await db.execute(
+      const allEnrollments = await ctx.db.execute(
         sql`SELECT id FROM enrollments WHERE student_profile_id = ${enrollment.student_profile_id}`
       );
 
       // Delete assignment_question_responses and responses for ALL enrollments
       for (const enr of allEnrollments) {
         const enrId = (enr as { id: number }).id;
-        await db.execute(
+        await ctx.db.execute(
           sql`DELETE FROM assignment_question_responses
               WHERE response_id IN (SELECT id FROM responses WHERE enrollment_id = ${enrId})`
         );
-        await db.execute(sql`DELETE FROM responses WHERE enrollment_id = ${enrId}`);
+        await ctx.db.execute(sql`DELETE FROM responses WHERE enrollment_id = ${enrId}`);
       }
 
       // Delete ALL enrollments for this student
-      await db.execute(sql`DELETE FROM enrollments WHERE student_profile_id = ${enrollment.student_profile_id}`);
+      await ctx.db.execute(sql`DELETE FROM enrollments WHERE student_profile_id = ${enrollment.student_profile_id}`);
 
       // Delete student profile and auth user
-      await db.execute(sql`DELETE FROM student_profiles WHERE id = ${enrollment.student_profile_id}`);
-      await db.execute(sql`DELETE FROM auth.users WHERE id = ${enrollment.student_profile_id}::uuid`);
+      await ctx.db.execute(sql`DELETE FROM student_profiles WHERE id = ${enrollment.student_profile_id}`);
+      await ctx.db.execute(sql`DELETE FROM auth.users WHERE id = ${enrollment.student_profile_id}::uuid`);
     }
 
     console.log(`   Deleted ${seedEnrollments.length} seed students for group ${groupId}`);
@@ -93,8 +241,8 @@ async function cleanupSeedStudents(groupIds: number[]): Promise<void> {
  * Delete old seed assignments (lessons and mastery checks).
  * Matches both old "Topic X" pattern and new "Lesson N: Title" pattern.
  */
-async function cleanupSeedAssignments(): Promise<void> {
-  const oldAssignments = await db.execute(
+async function cleanupSeedAssignments(ctx: SeedContext): Promise<void> {
+  const oldAssignments = await ctx.db.execute(
     sql`SELECT id FROM assignments
         WHERE title LIKE 'Unit % Lesson %: Topic %'
            OR title LIKE 'Lesson %: Topic %'
@@ -109,18 +257,18 @@ async function cleanupSeedAssignments(): Promise<void> {
 
   // Delete in correct order due to foreign keys
   for (const id of assignmentIds) {
-    await db.execute(sql`DELETE FROM assignment_question_responses WHERE assigned_assignment_id IN (
+    await ctx.db.execute(sql`DELETE FROM assignment_question_responses WHERE assigned_assignment_id IN (
       SELECT id FROM assigned_assignments WHERE assignment_id = ${id}
     )`);
   }
   for (const id of assignmentIds) {
-    await db.execute(sql`DELETE FROM assigned_assignments WHERE assignment_id = ${id}`);
-    await db.execute(sql`DELETE FROM assignment_prerequisites WHERE assignment_id = ${id} OR prereq_assignment_id = ${id}`);
-    await db.execute(sql`DELETE FROM assignment_modules WHERE assignment_id = ${id}`);
-    await db.execute(sql`DELETE FROM assignment_questions WHERE assignment_id = ${id}`);
+    await ctx.db.execute(sql`DELETE FROM assigned_assignments WHERE assignment_id = ${id}`);
+    await ctx.db.execute(sql`DELETE FROM assignment_prerequisites WHERE assignment_id = ${id} OR prereq_assignment_id = ${id}`);
+    await ctx.db.execute(sql`DELETE FROM assignment_modules WHERE assignment_id = ${id}`);
+    await ctx.db.execute(sql`DELETE FROM assignment_questions WHERE assignment_id = ${id}`);
   }
   for (const id of assignmentIds) {
-    await db.execute(sql`DELETE FROM assignments WHERE id = ${id}`);
+    await ctx.db.execute(sql`DELETE FROM assignments WHERE id = ${id}`);
   }
 
   console.log(`   Deleted ${assignmentIds.length} old seed assignments`);
@@ -130,11 +278,12 @@ async function cleanupSeedAssignments(): Promise<void> {
  * Delete orphaned questions and KCs created by seed.
  * Must handle full dependency chain: responses -> questions -> KCs
  */
-async function cleanupOrphanedKCs(): Promise<void> {
-  const seedKCs = await db.execute(
+async function cleanupOrphanedKCs(ctx: SeedContext): Promise<void> {
+  const seedKCs = await ctx.db.execute(
     sql`SELECT id FROM knowledge_components
         WHERE name LIKE 'KC for Q% in Unit%'
-           OR name LIKE 'KC for Q% in Lesson%'`
+           OR name LIKE 'KC for Q% in Lesson%'
+           OR name LIKE 'Assessment KC:%'`
   );
 
   if (seedKCs.length === 0) return;
@@ -143,23 +292,24 @@ async function cleanupOrphanedKCs(): Promise<void> {
     const kcId = (kc as { id: number }).id;
 
     // Get questions that reference this KC
-    const questions = await db.execute(
+    const questions = await ctx.db.execute(
       sql`SELECT id FROM questions WHERE knowledge_component_id = ${kcId}`
     );
 
     for (const q of questions) {
       const qId = (q as { id: number }).id;
-      await db.execute(sql`DELETE FROM responses WHERE question_id = ${qId}`);
-      await db.execute(sql`DELETE FROM assignment_questions WHERE question_id = ${qId}`);
+      await ctx.db.execute(sql`DELETE FROM responses WHERE question_id = ${qId}`);
+      await ctx.db.execute(sql`DELETE FROM assignment_questions WHERE question_id = ${qId}`);
     }
 
-    await db.execute(sql`DELETE FROM questions WHERE knowledge_component_id = ${kcId}`);
+    await ctx.db.execute(sql`DELETE FROM questions WHERE knowledge_component_id = ${kcId}`);
   }
 
-  const deletedKCs = await db.execute(
+  const deletedKCs = await ctx.db.execute(
     sql`DELETE FROM knowledge_components
         WHERE name LIKE 'KC for Q% in Unit%'
            OR name LIKE 'KC for Q% in Lesson%'
+           OR name LIKE 'Assessment KC:%'
         RETURNING id`
   );
   console.log(`   Deleted ${deletedKCs.length} orphaned KCs and their questions`);
@@ -168,9 +318,9 @@ async function cleanupOrphanedKCs(): Promise<void> {
 /**
  * Delete old assessment assignments.
  */
-async function cleanupAssessments(): Promise<void> {
-  const oldAssessments = await db.execute(
-    sql`SELECT id FROM assignments WHERE title LIKE 'Unit % Assessment'`
+async function cleanupAssessments(ctx: SeedContext): Promise<void> {
+  const oldAssessments = await ctx.db.execute(
+    sql`SELECT id FROM assignments WHERE title LIKE 'Unit % Assessment' OR title LIKE 'Unit Assessment:%'`
   );
 
   if (oldAssessments.length === 0) return;
@@ -178,13 +328,13 @@ async function cleanupAssessments(): Promise<void> {
   const assessmentIds = oldAssessments.map((a: any) => a.id);
 
   for (const id of assessmentIds) {
-    await db.execute(sql`DELETE FROM assignment_question_responses WHERE assigned_assignment_id IN (
+    await ctx.db.execute(sql`DELETE FROM assignment_question_responses WHERE assigned_assignment_id IN (
       SELECT id FROM assigned_assignments WHERE assignment_id = ${id}
     )`);
-    await db.execute(sql`DELETE FROM assigned_assignments WHERE assignment_id = ${id}`);
-    await db.execute(sql`DELETE FROM assignment_modules WHERE assignment_id = ${id}`);
-    await db.execute(sql`DELETE FROM assignment_questions WHERE assignment_id = ${id}`);
-    await db.execute(sql`DELETE FROM assignments WHERE id = ${id}`);
+    await ctx.db.execute(sql`DELETE FROM assigned_assignments WHERE assignment_id = ${id}`);
+    await ctx.db.execute(sql`DELETE FROM assignment_modules WHERE assignment_id = ${id}`);
+    await ctx.db.execute(sql`DELETE FROM assignment_questions WHERE assignment_id = ${id}`);
+    await ctx.db.execute(sql`DELETE FROM assignments WHERE id = ${id}`);
   }
 
   console.log(`   Deleted ${assessmentIds.length} old assessment assignments`);
@@ -193,8 +343,8 @@ async function cleanupAssessments(): Promise<void> {
 /**
  * Delete old Canvas practice assignments.
  */
-async function cleanupCanvasAssignments(): Promise<void> {
-  const oldCanvas = await db.execute(
+async function cleanupCanvasAssignments(ctx: SeedContext): Promise<void> {
+  const oldCanvas = await ctx.db.execute(
     sql`SELECT id FROM assignments WHERE title LIKE 'Canvas Practice %'`
   );
 
@@ -203,13 +353,13 @@ async function cleanupCanvasAssignments(): Promise<void> {
   const canvasIds = oldCanvas.map((a: any) => a.id);
 
   for (const id of canvasIds) {
-    await db.execute(sql`DELETE FROM assignment_question_responses WHERE assigned_assignment_id IN (
+    await ctx.db.execute(sql`DELETE FROM assignment_question_responses WHERE assigned_assignment_id IN (
       SELECT id FROM assigned_assignments WHERE assignment_id = ${id}
     )`);
-    await db.execute(sql`DELETE FROM assigned_assignments WHERE assignment_id = ${id}`);
-    await db.execute(sql`DELETE FROM assignment_modules WHERE assignment_id = ${id}`);
-    await db.execute(sql`DELETE FROM assignment_questions WHERE assignment_id = ${id}`);
-    await db.execute(sql`DELETE FROM assignments WHERE id = ${id}`);
+    await ctx.db.execute(sql`DELETE FROM assigned_assignments WHERE assignment_id = ${id}`);
+    await ctx.db.execute(sql`DELETE FROM assignment_modules WHERE assignment_id = ${id}`);
+    await ctx.db.execute(sql`DELETE FROM assignment_questions WHERE assignment_id = ${id}`);
+    await ctx.db.execute(sql`DELETE FROM assignments WHERE id = ${id}`);
   }
 
   console.log(`   Deleted ${canvasIds.length} old Canvas practice assignments`);
@@ -0,0 +1,299 @@
+/**
+ * Command-Line Interface
+ *
+ * Parses the command (seed, advance, assessment, verify, export, import,
+ * list-runs, cleanup) and per-run overrides
+ * (groups, modules, students, days, teacher, seed, as-of, calendar, timezone,
+ * class periods, batch-size, dry-run, phase selection) into a validated
+ * SeedConfig.
+ */
+
+import { parseArgs } from "node:util";
+import {
+  SeedConfig,
+  PlanFormat,
+  SEED_PHASES,
+  DEFAULT_SUCCESS_ASSESSMENT_TITLE,
+  REWARD_SCENARIO_KEYS,
+  RewardScenario,
+  ClassPeriod,
+  DEFAULT_CONFIG,
+  createSeedConfig,
+} from "./config";
+import { selectPhases } from "./phases";
+import { addDays, instantInTimezone, isValidTimezone } from "./timezone";
+
+export const USAGE = `Usage: run.sh [command] [options]
+
+Commands:
+  seed                (default) Clean up earlier runs for these groups, then seed
+  advance             Add the next school day of activity to already seeded groups
+  assessment          Add a success-profile assessment (scores 100% down to 17%)
+                      to --modules for the existing students in --groups
+  verify              Check seeded data in --groups against the seeder's invariants
+                      (exits 1 on any violation)
+  export --file <f>   Write the rows recorded by runs for --groups to a JSON fixture
+  import --file <f>   Load a fixture into --groups/--modules with new IDs, replacing
+                      earlier runs for those groups
+  list-runs           List recorded seed runs
+  cleanup --run <id>  Delete exactly the rows a recorded run created
+  cleanup --legacy    Delete pre-manifest seed data in --groups by title/email pattern
+
+Options:
+  --groups <ids>      Comma-separated group IDs to populate (e.g. 1,3)
+  --modules <ids>     Comma-separated module IDs to seed lessons into (e.g. 10,11)
+  --students <n>      Students per group
+  --days <n>          Days of historical data
+  --teacher <email>   Teacher email to look up in the database
+  --seed <n>          Random seed; the same seed reproduces the same data
+  --as-of <datetime>  Treat this instant as "now" (e.g. 2026-03-14T13:00, read in
+                      the school timezone unless it ends in Z or an offset)
+  --calendar <file>   School calendar (.json or .ics) with holidays, breaks, half
+                      days and term start (default: every weekday is a school day)
+  --timezone <tz>     School timezone (IANA, default America/New_York); days start
+                      at its midnight and class periods are in it
+  --periods <list>    Class period per group, e.g. 1=09:05-09:50,3=12:15-13:00
+                      (default: 2nd period 09:05-09:50)
+  --batch-size <n>    Events/responses per multi-row INSERT (default 500)
+  --dry-run           Plan the run without writing anything; prints the plan
+  --format <fmt>      Plan output format for --dry-run: text (default) or json
+  --only <phases>     Run only these phases (comma-separated); their rows from
+                      earlier runs are replaced, everything else is kept
+  --skip <phases>     Run every phase except these
+  --success-assessment
+                      Also create a success-profile assessment while seeding
+  --title <title>     Success-profile assessment title
+                      (default "${DEFAULT_SUCCESS_ASSESSMENT_TITLE}")
+  --reward-scenario <name>
+                      Land each group's points on a reward-goal state and post
+                      matching pacing goals: ${REWARD_SCENARIO_KEYS.join(", ")}
+  --file <path>       Fixture file for export/import
+  --run <id>          Run ID for cleanup (see list-runs)
+  --legacy            Pattern-based cleanup for data seeded before run manifests
+  -y, --yes           Delete earlier runs / cleanup without asking for confirmation
+  -h, --help          Show this help and exit
+
+Phases (in order): ${SEED_PHASES.join(", ")}
+Skipped students/lessons are loaded from the database when a later phase needs them.
+`;
+
+export const COMMANDS = [
+  "seed",
+  "advance",
+  "assessment",
+  "verify",
+  "export",
+  "import",
+  "list-runs",
+  "cleanup",
+] as const;
+export type Command = (typeof COMMANDS)[number];
+
+export interface CliOptions {
+  command: Command;
+  help: boolean;
+  config: SeedConfig;
+  /** cleanup --run <id> */
+  runId: string | null;
+  /** cleanup --legacy */
+  legacy: boolean;
+  /** --yes: skip the confirmation before destructive cleanup */
+  yes: boolean;
+  /** export/import --file <path> */
+  file: string | null;
+}
+
+/**
+ * Parse command-line arguments into a validated config.
+ * Throws on unknown flags or invalid values.
+ */
+export function parseCliArgs(argv: string[]): CliOptions {
+  const { values, positionals } = parseArgs({
+    args: argv,
+    allowPositionals: true,
+    options: {
+      groups: { type: "string" },
+      modules: { type: "string" },
+      students: { type: "string" },
+      days: { type: "string" },
+      teacher: { type: "string" },
+      seed: { type: "string" },
+      "as-of": { type: "string" },
+      calendar: { type: "string" },
+      timezone: { type: "string" },
+      periods: { type: "string" },
+      "batch-size": { type: "string" },
+      "dry-run": { type: "boolean" },
+      format: { type: "string" },
+      only: { type: "string" },
+      skip: { type: "string" },
+      "success-assessment": { type: "boolean" },
+      title: { type: "string" },
+      "reward-scenario": { type: "string" },
+      file: { type: "string" },
+      run: { type: "string" },
+      legacy: { type: "boolean" },
+      yes: { type: "boolean", short: "y" },
+      help: { type: "boolean", short: "h" },
+    },
+  });
+
+  const command = parseCommand(positionals);
+
+  if (values.help) {
+    return { command, help: true, config: createSeedConfig(), runId: null, legacy: false, yes: false, file: null };
+  }
+
+  if (command === "cleanup") {
+    if ((values.run === undefined) === !values.legacy) {
+      throw new Error("cleanup needs exactly one of --run <id> or --legacy");
+    }
+  } else if (values.run !== undefined || values.legacy) {
+    throw new Error("--run and --legacy only apply to the cleanup command");
+  }
+  if (command === "export" || command === "import") {
+    if (values.file === undefined) {
+      throw new Error(`${command} needs --file <path>`);
+    }
+  } else if (values.file !== undefined) {
+    throw new Error("--file only applies to the export and import commands");
+  }
+  if (values["dry-run"] && command !== "seed") {
+    throw new Error("--dry-run only applies to the seed command");
+  }
+  if ((values.only !== undefined || values.skip !== undefined) && command !== "seed") {
+    throw new Error("--only and --skip only apply to the seed command");
+  }
+  if (values["success-assessment"] && command !== "seed") {
+    throw new Error("--success-assessment only applies to the seed command");
+  }
+  if (values.title !== undefined && command !== "assessment" && !values["success-assessment"]) {
+    throw new Error("--title only applies to the assessment command or with --success-assessment");
+  }
+  if (values["reward-scenario"] !== undefined && command !== "seed") {
+    throw new Error("--reward-scenario only applies to the seed command");
+  }
+  if (values.yes && command !== "seed" && command !== "cleanup" && command !== "import") {
+    throw new Error("--yes only applies to the seed, import, and cleanup commands");
+  }
+
+  const overrides: Partial<SeedConfig> = {};
+  if (values.groups !== undefined) overrides.GROUP_IDS = parseIdList("--groups", values.groups);
+  if (values.modules !== undefined) overrides.MODULE_IDS = parseIdList("--modules", values.modules);
+  if (values.students !== undefined) overrides.STUDENTS_TO_CREATE = parseInteger("--students", values.students);
+  if (values.days !== undefined) overrides.DAYS_TO_SEED = parseInteger("--days", values.days);
+  if (values.teacher !== undefined) overrides.TEACHER_EMAIL = values.teacher;
+  if (values.seed !== undefined) overrides.RANDOM_SEED = parseInteger("--seed", values.seed);
+  if (values.timezone !== undefined) {
+    if (!isValidTimezone(values.timezone)) {
+      throw new Error(`--timezone expects an IANA timezone like America/New_York (got "${values.timezone}")`);
+    }
+    overrides.SCHOOL_TIMEZONE = values.timezone;
+  }
+  if (values["as-of"] !== undefined) {
+    const timezone = overrides.SCHOOL_TIMEZONE ?? DEFAULT_CONFIG.SCHOOL_TIMEZONE;
+    overrides.AS_OF = parseDateTime("--as-of", values["as-of"], timezone);
+  }
+  if (values.calendar !== undefined) overrides.CALENDAR_FILE = values.calendar;
+  if (values.periods !== undefined) {
+    overrides.CLASS_PERIODS = { ...DEFAULT_CONFIG.CLASS_PERIODS, ...parsePeriods("--periods", values.periods) };
+  }
+  if (values["batch-size"] !== undefined) overrides.BATCH_SIZE = parseInteger("--batch-size", values["batch-size"]);
+  if (values["dry-run"]) overrides.DRY_RUN = true;
+  if (values.format !== undefined) {
+    if (!values["dry-run"]) throw new Error("--format only applies with --dry-run");
+    overrides.PLAN_FORMAT = values.format as PlanFormat;
+  }
+  if (command === "assessment" || values["success-assessment"]) {
+    overrides.SUCCESS_ASSESSMENT_TITLE = values.title ?? DEFAULT_SUCCESS_ASSESSMENT_TITLE;
+  }
+  if (values["reward-scenario"] !== undefined) {
+    overrides.REWARD_SCENARIO = values["reward-scenario"] as RewardScenario;
+  }
+  if (values.only !== undefined || values.skip !== undefined) {
+    overrides.PHASES = selectPhases(
+      values.only !== undefined ? parseNameList("--only", values.only) : null,
+      values.skip !== undefined ? parseNameList("--skip", values.skip) : []
+    );
+  }
+
+  return {
+    command,
+    help: false,
+    config: createSeedConfig(overrides),
+    runId: values.run ?? null,
+    legacy: values.legacy ?? false,
+    yes: values.yes ?? false,
+    file: values.file ?? null,
+  };
+}
+
+function parseCommand(positionals: string[]): Command {
+  if (positionals.length > 1) {
+    throw new Error(`Unexpected arguments: ${positionals.slice(1).join(" ")}`);
+  }
+  const command = positionals[0] ?? "seed";
+  if (!(COMMANDS as readonly string[]).includes(command)) {
+    throw new Error(`Unknown command "${command}" (expected ${COMMANDS.join(", ")})`);
+  }
+  return command as Command;
+}
+
+function parseInteger(flag: string, raw: string): number {
+  const value = Number(raw);
+  if (!/^\d+$/.test(raw.trim()) || !Number.isSafeInteger(value)) {
+    throw new Error(`${flag} expects a whole number (got "${raw}")`);
+  }
+  return value;
+}
+
+/**
+ * A date/time in the school timezone, or the exact instant when it ends in Z
+ * or an offset (e.g. 2026-03-14T13:00-05:00).
+ */
+function parseDateTime(flag: string, raw: string, timezone: string): Date {
+  const wall = /^(\d{4}-\d{2}-\d{2})(?:[T ](\d{2}):(\d{2})(?::(\d{2}))?)?$/.exec(raw.trim());
+  if (wall) {
+    const [, date, hours = "0", minutes = "0", seconds = "0"] = wall;
+    if (addDays(date, 0) === date && Number(hours) < 24 && Number(minutes) < 60 && Number(seconds) < 60) {
+      return instantInTimezone(date, Number(hours) * 60 + Number(minutes) + Number(seconds) / 60, timezone);
+    }
+  } else {
+    const value = new Date(raw);
+    if (!Number.isNaN(value.getTime())) return value;
+  }
+  throw new Error(`${flag} expects a date/time like 2026-03-14T13:00 (got "${raw}")`);
+}
+
+/** "1=09:05-09:50,3=12:15-13:00" -> class periods by group ID */
+function parsePeriods(flag: string, raw: string): Record<number, ClassPeriod> {
+  const periods: Record<number, ClassPeriod> = {};
+  for (const part of raw.split(",").map((p) => p.trim()).filter((p) => p.length > 0)) {
+    const match = /^(\d+)=(\d{2}:\d{2})-(\d{2}:\d{2})$/.exec(part);
+    if (!match) {
+      throw new Error(`${flag} expects <group>=<HH:MM>-<HH:MM> entries like 1=09:05-09:50 (got "${part}")`);
+    }
+    const [, groupId, start, end] = match;
+    periods[Number(groupId)] = { name: "Custom period", start, end };
+  }
+  return periods;
+}
+
+function parseIdList(flag: string, raw: string): number[] {
+  return raw
+    .split(",")
+    .map((part) => part.trim())
+    .filter((part) => part.length > 0)
+    .map((part) => parseInteger(flag, part));
+}
+
+function parseNameList(flag: string, raw: string): string[] {
+  const names = raw
+    .split(",")
+    .map((part) => part.trim())
+    .filter((part) => part.length > 0);
+  if (names.length === 0) {
+    throw new Error(`${flag} expects a comma-separated list of phases`);
+  }
+  return names;
+}
@@ -0,0 +1,28 @@
+/**
+ * Seed Clock
+ *
+ * The single source of "now" for a seed run. Every timestamp, launch date,
+ * due date, and pacing start date is computed relative to this clock, so
+ * --as-of can pin a run to any instant (e.g. the Monday after spring break).
+ * The clock also carries the school's timezone, which decides where one day
+ * ends and the next begins (see seed/timezone.ts).
+ */
+
+export interface Clock {
+  /** The instant treated as "now" for this run. */
+  now(): Date;
+  /** True when "now" was set via --as-of rather than taken from the wall clock. */
+  readonly pinned: boolean;
+  /** The school's IANA timezone (e.g. America/New_York) */
+  readonly timezone: string;
+}
+
+/**
+ * Create a clock pinned to asOf, or to the moment the run started when asOf is
+ * null. Either way "now" stays fixed for the whole run, so day boundaries can't
+ * shift between the first and last insert.
+ */
+export function createClock(asOf: Date | null, timezone: string): Clock {
+  const instantMs = (asOf ?? new Date()).getTime();
+  return { now: () => new Date(instantMs), pinned: asOf !== null, timezone };
+}
@@ -2,50 +2,368 @@
  * Seed Configuration and Types
  *
  * Central configuration for sandbox data seeding.
- * Edit these values to customize what gets created.
+ * DEFAULT_CONFIG holds the defaults; createSeedConfig() applies per-run overrides.
  */
 
 import { db } from "supabase/drizzle/db";
+import { Clock } from "./clock";
+import { Random } from "./random";
+import { addDays, dateInTimezone, instantInTimezone, isValidTimezone, minutesInTimezone } from "./timezone";
+import type { StudentPersona } from "./personas";
+import type { SchoolCalendar } from "./calendar";
 
 // Re-export db for use by other modules
 export { db };
 
+/** The project database or an open transaction; seed code only needs execute(). */
+export type Database = Pick<typeof db, "execute">;
+
 // =============================================================================
 // CONFIGURATION
 // =============================================================================
 
-export const CONFIG = {
+export interface SeedConfig {
   // Teacher to use (must exist in database)
-  TEACHER_EMAIL: process.env.SEED_TEACHER_EMAIL || "teacher@example.com",
+  TEACHER_EMAIL: string;
 
   // Groups to populate with data
-  GROUP_IDS: [1, 3],
+  GROUP_IDS: number[];
 
   // Group codes required by mastery_checks_by_enrollment_daily view
+  GROUP_CODES: Record<number, string>;
+
+  // Modules to populate with lessons
+  MODULE_IDS: number[];
+
+  // Data volume settings
+  STUDENTS_TO_CREATE: number;
+  STANDALONE_LESSONS_TO_CREATE: number; // Lessons without paired mastery checks (at start of unit)
+  LESSONS_TO_CREATE: number; // Lessons WITH paired mastery checks
+  QUESTIONS_PER_LESSON: number; // Q1, Q2, Q3, Q4
+  ASSESSMENTS_TO_CREATE: number;
+  QUESTIONS_PER_ASSESSMENT: number;
+
+  // Also create a success-profile assessment with this title (null = don't)
+  SUCCESS_ASSESSMENT_TITLE: string | null;
+
+  // Time range for seeded data
+  DAYS_TO_SEED: number;
+
+  // School calendar (.json or .ics, see seed/calendar.ts); null = every weekday is a school day
+  CALENDAR_FILE: string | null;
+
+  // School timezone (IANA name); day boundaries and class periods are in it
+  SCHOOL_TIMEZONE: string;
+
+  // Class period each group meets in, by group ID (others get DEFAULT_CLASS_PERIOD)
+  CLASS_PERIODS: Record<number, ClassPeriod>;
+
+  // Seed for the shared PRNG (null = pick a fresh one and log it)
+  RANDOM_SEED: number | null;
+
+  // Instant treated as "now" for every timestamp (null = wall clock at start of run)
+  // (--as-of reads its date and time in SCHOOL_TIMEZONE)
+  AS_OF: Date | null;
+
+  // Rows per multi-row INSERT for events and responses
+  BATCH_SIZE: number;
+
+  // Plan the run without touching the database or pacing API
+  DRY_RUN: boolean;
+
+  // Output format for the dry-run plan
+  PLAN_FORMAT: PlanFormat;
+
+  // Pipeline phases to run (see seed/phases.ts); all of them by default
+  PHASES: SeedPhase[];
+
+  // Reward-goal state the points and pacing phases land each group on (null = default goals)
+  REWARD_SCENARIO: RewardScenario | null;
+}
+
+export type PlanFormat = "text" | "json";
+
+/** Named phases of the seed pipeline, in the order they run. */
+export const SEED_PHASES = [
+  "cleanup",
+  "students",
+  "lessons",
+  "events",
+  "points",
+  "attendance",
+  "assessments",
+  "canvas",
+  "backfill",
+  "pacing",
+] as const;
+
+export type SeedPhase = (typeof SEED_PHASES)[number];
+
+/** Title of the success-profile assessment when none is given (see seed/assessments.ts) */
+export const DEFAULT_SUCCESS_ASSESSMENT_TITLE = "Unit Assessment: Topics F-J";
+
+/**
+ * Default configuration. Override per run via CLI flags (see seed/cli.ts)
+ * rather than editing these values.
+ */
+export const DEFAULT_CONFIG: SeedConfig = {
+  TEACHER_EMAIL: process.env.SEED_TEACHER_EMAIL || "teacher@example.com",
+
+  GROUP_IDS: [1, 3],
+
   GROUP_CODES: {
     1: "6035",
     3: "6704",
-  } as Record<number, string>,
+  },
 
-  // Modules to populate with lessons (set to null to create new)
   MODULE_IDS: [10, 11],
 
-  // Data volume settings
   STUDENTS_TO_CREATE: 13,
-  STANDALONE_LESSONS_TO_CREATE: 2, // Lessons without paired mastery checks (at start of unit)
-  LESSONS_TO_CREATE: 5, // Lessons WITH paired mastery checks
-  QUESTIONS_PER_LESSON: 4, // Q1, Q2, Q3, Q4
+  STANDALONE_LESSONS_TO_CREATE: 2,
+  LESSONS_TO_CREATE: 5,
+  QUESTIONS_PER_LESSON: 4,
   ASSESSMENTS_TO_CREATE: 2,
   QUESTIONS_PER_ASSESSMENT: 3,
 
-  // Time range for seeded data
+  SUCCESS_ASSESSMENT_TITLE: null,
+
   DAYS_TO_SEED: 45,
+
+  CALENDAR_FILE: process.env.SEED_CALENDAR_FILE || null,
+
+  SCHOOL_TIMEZONE: process.env.SEED_SCHOOL_TIMEZONE || "America/New_York",
+
+  CLASS_PERIODS: {
+    1: { name: "2nd period", start: "09:05", end: "09:50" },
+    3: { name: "3rd period", start: "09:55", end: "10:40" },
+  },
+
+  RANDOM_SEED: null,
+
+  AS_OF: null,
+
+  BATCH_SIZE: 500,
+
+  DRY_RUN: false,
+  PLAN_FORMAT: "text",
+
+  PHASES: [...SEED_PHASES],
+
+  REWARD_SCENARIO: null,
 };
 
+const MAX_BATCH_SIZE = 5000;
+
+/**
+ * Merge overrides onto the defaults and validate the result.
+ * Throws with a descriptive message if any value is out of range.
+ */
+export function createSeedConfig(overrides: Partial<SeedConfig> = {}): SeedConfig {
+  const config: SeedConfig = { ...DEFAULT_CONFIG, ...overrides };
+
+  if (!/^[^@\s]+@[^@\s]+$/.test(config.TEACHER_EMAIL)) {
+    throw new Error(`Invalid teacher email: ${config.TEACHER_EMAIL}`);
+  }
+  assertIdList("GROUP_IDS", config.GROUP_IDS);
+  assertIdList("MODULE_IDS", config.MODULE_IDS);
+  assertPositiveInt("STUDENTS_TO_CREATE", config.STUDENTS_TO_CREATE);
+  assertPositiveInt("STANDALONE_LESSONS_TO_CREATE", config.STANDALONE_LESSONS_TO_CREATE, 0);
+  assertPositiveInt("LESSONS_TO_CREATE", config.LESSONS_TO_CREATE);
+  assertPositiveInt("QUESTIONS_PER_LESSON", config.QUESTIONS_PER_LESSON);
+  assertPositiveInt("ASSESSMENTS_TO_CREATE", config.ASSESSMENTS_TO_CREATE, 0);
+  assertPositiveInt("QUESTIONS_PER_ASSESSMENT", config.QUESTIONS_PER_ASSESSMENT);
+  assertPositiveInt("DAYS_TO_SEED", config.DAYS_TO_SEED);
+  if (config.CALENDAR_FILE !== null && config.CALENDAR_FILE.trim() === "") {
+    throw new Error("CALENDAR_FILE must not be empty");
+  }
+  if (!isValidTimezone(config.SCHOOL_TIMEZONE)) {
+    throw new Error(`SCHOOL_TIMEZONE must be an IANA timezone like America/New_York (got "${config.SCHOOL_TIMEZONE}")`);
+  }
+  for (const [groupId, period] of Object.entries(config.CLASS_PERIODS)) {
+    assertClassPeriod(`CLASS_PERIODS[${groupId}]`, period);
+  }
+  if (config.RANDOM_SEED !== null) {
+    assertPositiveInt("RANDOM_SEED", config.RANDOM_SEED, 0);
+    if (config.RANDOM_SEED > 0xffffffff) {
+      throw new Error(`RANDOM_SEED must fit in 32 bits (got ${config.RANDOM_SEED})`);
+    }
+  }
+  if (config.AS_OF !== null && Number.isNaN(config.AS_OF.getTime())) {
+    throw new Error("AS_OF is not a valid date");
+  }
+  assertPositiveInt("BATCH_SIZE", config.BATCH_SIZE);
+  if (config.BATCH_SIZE > MAX_BATCH_SIZE) {
+    // Keeps a batch under Postgres' 65535 bind-parameter limit
+    throw new Error(`BATCH_SIZE must be at most ${MAX_BATCH_SIZE} (got ${config.BATCH_SIZE})`);
+  }
+  if (config.PLAN_FORMAT !== "text" && config.PLAN_FORMAT !== "json") {
+    throw new Error(`PLAN_FORMAT must be "text" or "json" (got "${config.PLAN_FORMAT}")`);
+  }
+  if (config.SUCCESS_ASSESSMENT_TITLE !== null && config.SUCCESS_ASSESSMENT_TITLE.trim() === "") {
+    throw new Error("SUCCESS_ASSESSMENT_TITLE must not be empty");
+  }
+  if (config.PHASES.length === 0) {
+    throw new Error("PHASES must contain at least one phase");
+  }
+  for (const phase of config.PHASES) {
+    if (!(SEED_PHASES as readonly string[]).includes(phase)) {
+      throw new Error(`PHASES contains an unknown phase: ${phase}`);
+    }
+  }
+  if (config.REWARD_SCENARIO !== null) {
+    const scenario = REWARD_SCENARIOS[config.REWARD_SCENARIO];
+    if (!scenario) {
+      throw new Error(
+        `REWARD_SCENARIO must be one of ${REWARD_SCENARIO_KEYS.join(", ")} (got "${config.REWARD_SCENARIO}")`
+      );
+    }
+    if (scenario.studentsAboveTarget !== null && config.STUDENTS_TO_CREATE <= scenario.studentsAboveTarget) {
+      throw new Error(
+        `REWARD_SCENARIO ${config.REWARD_SCENARIO} needs more than ${scenario.studentsAboveTarget} students ` +
+          `(got ${config.STUDENTS_TO_CREATE})`
+      );
+    }
+  }
+
+  return config;
+}
+
+function assertPositiveInt(key: keyof SeedConfig, value: number, min: number = 1): void {
+  if (!Number.isInteger(value) || value < min) {
+    throw new Error(`${key} must be an integer >= ${min} (got ${value})`);
+  }
+}
+
+function assertClassPeriod(key: string, period: ClassPeriod): void {
+  const time = /^([01]\d|2[0-3]):[0-5]\d$/;
+  if (!time.test(period.start) || !time.test(period.end)) {
+    throw new Error(`${key} needs HH:MM start and end times (got ${period.start}-${period.end})`);
+  }
+  if (timeOfDayMinutes(period.end) - timeOfDayMinutes(period.start) < MIN_CLASS_PERIOD_MINUTES) {
+    throw new Error(
+      `${key} must end at least ${MIN_CLASS_PERIOD_MINUTES} minutes after it starts (got ${period.start}-${period.end})`
+    );
+  }
+}
+
+function assertIdList(key: keyof SeedConfig, ids: number[]): void {
+  if (ids.length === 0) {
+    throw new Error(`${key} must contain at least one ID`);
+  }
+  for (const id of ids) {
+    if (!Number.isInteger(id) || id < 1) {
+      throw new Error(`${key} contains an invalid ID: ${id}`);
+    }
+  }
+  if (new Set(ids).size !== ids.length) {
+    throw new Error(`${key} contains duplicate IDs: ${ids.join(", ")}`);
+  }
+}
+
+// =============================================================================
+// LESSON ANSWER CHOICES
+// =============================================================================
+
+// Every seeded lesson question offers these choices; QUESTION_ANSWERED events
+// quote the chosen one's text
+export const LESSON_CORRECT_ANSWER = "Correct Answer";
+export const LESSON_DISTRACTORS = ["Incorrect Option B", "Incorrect Option C", "Incorrect Option D"];
+
+// =============================================================================
+// ATTENDANCE SOURCES
+// =============================================================================
+
+// Where an attendance mark came from (data.source / data.sourceDetail on
+// STUDENT_MARKED_PRESENT and STUDENT_MARKED_ABSENT events)
+export const ATTENDANCE_SOURCES = {
+  // Fires when the student views a question
+  autoMark: { source: "podsie", sourceDetail: "question-viewed" },
+  // Teacher marks the student on the attendance page
+  teacher: { source: "teacher", sourceDetail: "manual" },
+  // Nightly roster sync from the school's SIS
+  rosterImport: { source: "sis", sourceDetail: "roster-import" },
+  // Teacher changes an earlier mark for the same date
+  correction: { source: "teacher", sourceDetail: "correction" },
+} as const;
+
+// =============================================================================
+// POINTS
+// =============================================================================
+
+// Mirrors modules/points/points.awarding.service.ts: every completed sequential
+// mastery check earns MASTERY_CHECK_POINTS, but only in is313 groups whose code
+// is on the whitelist
+export const MASTERY_CHECK_POINTS = 5;
+export const POINTS_GROUP_WHITELIST = ["PRP8", "M803"];
+
+// Zearn lessons completed in eligible groups arrive through the TL Connect
+// integration, ZEARN_LESSON_POINTS each, deduplicated by
+// TL_CONNECT_ZEARN:{email}:{lesson}:{date}
+export const ZEARN_LESSON_POINTS = 5;
+export const ZEARN_DEDUPE_PREFIX = "TL_CONNECT_ZEARN";
+
+/** The class and per-student points goals posted with each pacing config */
+export interface RewardGoals {
+  /** Class total that unlocks the reward */
+  pointsRewardGoal: number;
+  pointsRewardDescription: string;
+  /** Individual balance a student is aiming for */
+  studentPointsTarget: number;
+}
+
+export const DEFAULT_REWARD_GOALS: RewardGoals = {
+  pointsRewardGoal: 750,
+  pointsRewardDescription: "Pizza party when we reach our goal!",
+  studentPointsTarget: 100,
+};
+
+// Reward-goal scenarios (--reward-scenario): the points phase tops up the
+// ledger and picks goals so each group lands exactly on the state, for the
+// smartboard progress bar and celebration states
+export const REWARD_SCENARIO_KEYS = ["goal-reached", "goal-40-percent", "three-above-target"] as const;
+
+export type RewardScenario = (typeof REWARD_SCENARIO_KEYS)[number];
+
+export interface RewardScenarioSpec {
+  label: string;
+  /** Class total as a share of pointsRewardGoal, or null to leave the class below its goal */
+  classProgress: number | null;
+  /** Students whose balance ends above studentPointsTarget (everyone else below), or null */
+  studentsAboveTarget: number | null;
+}
+
+export const REWARD_SCENARIOS: Record<RewardScenario, RewardScenarioSpec> = {
+  "goal-reached": { label: "Class just hit its goal", classProgress: 1, studentsAboveTarget: null },
+  "goal-40-percent": { label: "Class at 40% of its goal", classProgress: 0.4, studentsAboveTarget: null },
+  "three-above-target": { label: "Three students above target", classProgress: null, studentsAboveTarget: 3 },
+};
+
+// =============================================================================
+// CLASS PERIODS
+// =============================================================================
+
+// When a group meets, in SCHOOL_TIMEZONE; in-class activity (lessons, mastery
+// checks, teacher awards, assessments) falls within it (see seed/schedule.ts)
+export interface ClassPeriod {
+  /** e.g. "2nd period" */
+  name: string;
+  /** 24-hour "HH:MM" */
+  start: string;
+  end: string;
+}
+
+// Groups without an entry in CLASS_PERIODS meet in this one
+export const DEFAULT_CLASS_PERIOD: ClassPeriod = { name: "2nd period", start: "09:05", end: "09:50" };
+
+// Shortest period a group can meet in
+export const MIN_CLASS_PERIOD_MINUTES = 20;
+
 // =============================================================================
 // SPECIAL STUDENT ROLES
 // =============================================================================
 
+// Everyone else gets a persona by position (seed/personas.ts)
+
 // Students at these indices will complete 100% of all assignments
 export const ALWAYS_COMPLETE_INDICES = [0]; // First student per group (Alex Smith)
 
@@ -66,12 +384,17 @@ export interface Group {
   id: number;
   group_name: string;
   group_code: string;
+  /** Points are only awarded automatically in is313 groups (see POINTS_GROUP_WHITELIST) */
+  is313: boolean;
 }
 
 export interface Enrollment {
   id: number;
   studentProfileId: string;
   name: string;
+  email: string;
+  /** Decides how this student behaves in every generator (see seed/personas.ts) */
+  persona: StudentPersona;
 }
 
 export interface LessonQuestion {
@@ -88,6 +411,8 @@ export interface LessonData {
   assignedLessonId: number;
   assignedMasteryId: number;
   questions: LessonQuestion[];
+  /** The mastery check's single question */
+  masteryQuestion: { id: number; assignmentQuestionId: number };
 }
 
 /** Standalone lesson without a paired mastery check */
@@ -181,39 +506,87 @@ export const STUDENT_NAMES = STUDENT_NAMES_BY_GROUP[0];
 // =============================================================================
 
 /**
- * Get today's date at midnight (start of day).
+ * Get the start of today (midnight in the school's timezone), relative to the run clock.
+ */
+export function getToday(clock: Clock): Date {
+  return instantInTimezone(getDateDaysAgo(clock, 0), 0, clock.timezone);
+}
+
+/**
+ * Get the school's date (YYYY-MM-DD) a number of days ago (0 = today).
  */
-export function getToday(): Date {
-  const today = new Date();
-  today.setHours(0, 0, 0, 0);
-  return today;
+export function getDateDaysAgo(clock: Clock, daysAgo: number): string {
+  return addDays(toSchoolDateString(clock, clock.now()), -daysAgo);
 }
 
 /**
- * Generate timestamp for a specific number of days ago.
+ * Generate timestamp for a specific number of days ago, at 10:00 school time
+ * plus hoursOffset hours. For times outside class (launch dates, evening
+ * roster imports); in-class activity uses the group's ClassSchedule
+ * (seed/schedule.ts).
  */
-export function getTimestampDaysAgo(daysAgo: number, hoursOffset: number = 0): string {
-  const date = getToday();
-  date.setDate(date.getDate() - daysAgo);
-  date.setHours(10 + hoursOffset, 0, 0, 0);
-  return date.toISOString();
+export function getTimestampDaysAgo(
+  clock: Clock,
+  daysAgo: number,
+  hoursOffset: number = 0
+): string {
+  return instantInTimezone(getDateDaysAgo(clock, daysAgo), (10 + hoursOffset) * 60, clock.timezone).toISOString();
 }
 
 /**
- * Get timestamp for different time periods (for varied distribution).
+ * Get the school day for a dashboard period (for varied distribution), in
+ * days ago: "today" is the latest school day on or before latestDay (the
+ * group's ClassSchedule.latestDay: today itself once its class period has
+ * started), "yesterday" the school day before it, and "earlier" 1-4 school
+ * days before that. Draws from the shared PRNG so a seeded run is reproducible.
  */
-export function getTimestamp(period: "today" | "yesterday" | "earlier"): Date {
-  const now = new Date();
+export function getDashboardDayOffset(
+  calendar: SchoolCalendar,
+  latestDay: number,
+  random: Random,
+  period: "today" | "yesterday" | "earlier"
+): number {
+  // Stay on the first school day (e.g. the term start) rather than go before it
+  const schoolDayBefore = (dayOffset: number) => calendar.previousSchoolDay(dayOffset) ?? dayOffset;
+
+  const latest = calendar.schoolDayOnOrBefore(latestDay);
   switch (period) {
     case "today":
-      return new Date(now.getTime() - Math.random() * 8 * 60 * 60 * 1000);
+      return latest;
     case "yesterday":
-      return new Date(
-        now.getTime() - 24 * 60 * 60 * 1000 - Math.random() * 8 * 60 * 60 * 1000
-      );
-    case "earlier":
-      return new Date(
-        now.getTime() - (2 + Math.floor(Math.random() * 5)) * 24 * 60 * 60 * 1000
-      );
+      return schoolDayBefore(latest);
+    case "earlier": {
+      let dayOffset = schoolDayBefore(latest);
+      for (let back = 1 + random.int(4); back > 0; back--) dayOffset = schoolDayBefore(dayOffset);
+      return dayOffset;
+    }
   }
 }
+
+/**
+ * Generate a timestamp the given number of days after "now", at the same
+ * school time of day (e.g. due dates).
+ */
+export function getTimestampDaysFromNow(clock: Clock, days: number): string {
+  const now = clock.now();
+  return instantInTimezone(
+    addDays(toSchoolDateString(clock, now), days),
+    minutesInTimezone(now, clock.timezone),
+    clock.timezone
+  ).toISOString();
+}
+
+/**
+ * Format an instant as its YYYY-MM-DD date in the school's timezone.
+ */
+export function toSchoolDateString(clock: Clock, date: Date): string {
+  return dateInTimezone(date, clock.timezone);
+}
+
+/**
+ * Minutes after midnight of a 24-hour "HH:MM" time.
+ */
+export function timeOfDayMinutes(time: string): number {
+  const [hours, minutes] = time.split(":").map(Number);
+  return hours * 60 + minutes;
+}
@@ -0,0 +1,103 @@
+/**
+ * Seed Run Context
+ *
+ * Per-run state threaded through every seed function: the validated config,
+ * the shared random generator, the run clock, each student's knowledge
+ * state, attendance schedule and class timeline, the school calendar, the database handle, the writer every
+ * row goes through (the database, or the dry-run planner), and the manifest of rows this run
+ * created.
+ */
+
+import { SeedConfig, Database, db } from "./config";
+import { Clock, createClock } from "./clock";
+import { Random, createRandom, generateSeed } from "./random";
+import { KnowledgeTracker, createKnowledgeTracker } from "./knowledge";
+import { AttendanceSchedule, createAttendanceSchedule } from "./attendance";
+import { SchoolCalendar, createSchoolCalendar, loadCalendar } from "./calendar";
+import { ClassTimeline, createClassTimeline } from "./schedule";
+import { SeedWriter, createDatabaseWriter } from "./writer";
+import { PlanRecorder, createPlanRecorder } from "./plan";
+import { RunManifest, createRunManifest } from "./manifest";
+
+export interface SeedContext {
+  config: SeedConfig;
+  random: Random;
+  clock: Clock;
+  /** Which days are school days (config.CALENDAR_FILE); every generator schedules on those only. */
+  calendar: SchoolCalendar;
+  /** Per-student, per-KC mastery that every correct/incorrect answer is sampled from. */
+  knowledge: KnowledgeTracker;
+  /** Which school days each student is in class; progress only lands on those. */
+  attendance: AttendanceSchedule;
+  /** Where each student's in-class work on a day ends, so later lessons that day follow it. */
+  timeline: ClassTimeline;
+  /** The project database, or the open transaction inside runInTransaction. */
+  db: Database;
+  writer: SeedWriter;
+  /** Set only for dry runs; the same object as writer. */
+  plan: PlanRecorder | null;
+  /** IDs of every row created so far (saved only after commit, never for dry runs). */
+  manifest: RunManifest;
+}
+
+/**
+ * Build the context for a run. Uses config.RANDOM_SEED when set, otherwise
+ * picks a fresh seed (logged by the caller so the run can be reproduced).
+ * The clock is pinned to config.AS_OF, or to the moment the run starts, and
+ * keeps days in config.SCHOOL_TIMEZONE.
+ * Dry runs write to a plan recorder instead of the database.
+ * Throws if config.CALENDAR_FILE can't be loaded.
+ */
+export function createSeedContext(config: SeedConfig): SeedContext {
+  const random = createRandom(config.RANDOM_SEED ?? generateSeed());
+  const clock = createClock(config.AS_OF, config.SCHOOL_TIMEZONE);
+  const plan = config.DRY_RUN ? createPlanRecorder(clock) : null;
+  const calendar = createSchoolCalendar(loadCalendar(config.CALENDAR_FILE), clock);
+  const manifest = createRunManifest({
+    randomSeed: random.seed,
+    asOf: clock.now(),
+    groupIds: config.GROUP_IDS,
+    moduleIds: config.MODULE_IDS,
+  });
+  return {
+    config,
+    random,
+    clock,
+    calendar,
+    knowledge: createKnowledgeTracker(random),
+    attendance: createAttendanceSchedule(random, clock, calendar, config.DAYS_TO_SEED),
+    timeline: createClassTimeline(),
+    db,
+    writer: plan ?? createDatabaseWriter(db, config.BATCH_SIZE, manifest),
+    plan,
+    manifest,
+  };
+}
+
+/**
+ * Run fn inside a single database transaction. fn receives a copy of ctx whose
+ * db and writer are bound to the transaction; buffered rows are flushed before
+ * commit. If fn throws, every statement it issued is rolled back and the error
+ * is rethrown. Dry runs never touch the database, so fn just runs with ctx.
+ */
+export async function runInTransaction<T>(
+  ctx: SeedContext,
+  fn: (txCtx: SeedContext) => Promise<T>
+): Promise<T> {
+  if (ctx.plan) {
+    const result = await fn(ctx);
+    await ctx.writer.flush();
+    return result;
+  }
+
+  return db.transaction(async (tx) => {
+    const txCtx: SeedContext = {
+      ...ctx,
+      db: tx,
+      writer: createDatabaseWriter(tx, ctx.config.BATCH_SIZE, ctx.manifest),
+    };
+    const result = await fn(txCtx);
+    await txCtx.writer.flush();
+    return result;
+  });
+}
@@ -0,0 +1,1328 @@
+/**
+ * Event Planning
+ *
+ * Pure scheduling layer for progress, points, and attendance data. Each
+ * planner takes enrollments, lessons, and PlanOptions and returns typed
+ * records; nothing here touches the database. seed/eventWriter.ts persists
+ * the records, and seed/events.ts wires the two together.
+ *
+ * Distribution strategy:
+ * - Each student's persona (seed/personas.ts) sets how much they complete,
+ *   when they start, how often they split lessons or put off mastery checks,
+ *   and how many points they earn
+ * - Activity is spread evenly with slight increase toward recent days
+ * - Only school days (seed/calendar.ts) get activity: no weekends, holidays,
+ *   breaks or days before the term starts, and half days cut lessons short
+ * - In-class activity falls within the group's class period, in the school's
+ *   timezone (seed/schedule.ts)
+ */
+
+import {
+  ATTENDANCE_SOURCES,
+  LESSON_CORRECT_ANSWER,
+  LESSON_DISTRACTORS,
+  MASTERY_CHECK_POINTS,
+  POINTS_GROUP_WHITELIST,
+  ZEARN_LESSON_POINTS,
+  ZEARN_DEDUPE_PREFIX,
+  DEFAULT_REWARD_GOALS,
+  REWARD_SCENARIOS,
+  RewardGoals,
+  RewardScenario,
+  Group,
+  Enrollment,
+  LessonData,
+  LessonQuestion,
+  StandaloneLessonData,
+  getDateDaysAgo,
+  getTimestampDaysAgo,
+  getDashboardDayOffset,
+  toSchoolDateString,
+} from "./config";
+import { Clock } from "./clock";
+import { KnowledgeTracker } from "./knowledge";
+import { AttendanceDay, AttendanceSchedule } from "./attendance";
+import { SchoolCalendar } from "./calendar";
+import { ClassSchedule, ClassTimeline } from "./schedule";
+import { worksToday } from "./personas";
+import { Random } from "./random";
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+export interface PlanOptions {
+  groupId: number;
+  daysToSeed: number;
+  clock: Clock;
+  random: Random;
+  knowledge: KnowledgeTracker;
+  attendance: AttendanceSchedule;
+  calendar: SchoolCalendar;
+  /** The group's class period; every in-class timestamp is a step into it */
+  schedule: ClassSchedule;
+  /** Shared by a run's lesson planners, so a student's lessons on one day follow each other */
+  timeline: ClassTimeline;
+}
+
+interface RecordBase {
+  enrollmentId: number;
+  studentProfileId: string;
+  groupId: number;
+  timestamp: string;
+}
+
+export interface QuestionShownRecord extends RecordBase {
+  type: "LESSON_QUESTION_SHOWN";
+  assignmentId: number;
+  questionId: number;
+  knowledgeComponentId: number;
+}
+
+/** One attempt at a question; wrong attempts pick one of the question's distractors. */
+export interface QuestionAnsweredRecord extends RecordBase {
+  type: "QUESTION_ANSWERED";
+  questionAttemptId: string;
+  assignmentId: number;
+  questionId: number;
+  assignmentQuestionId: number;
+  questionIndex: number;
+  isCorrect: boolean;
+  /** Text of the chosen answer choice */
+  answer: string;
+}
+
+export interface LessonCompletedRecord extends RecordBase {
+  type: "LESSON_COMPLETED";
+  assignmentId: number;
+  assignedAssignmentId: number;
+}
+
+/** Sequential mastery checks emit ASSIGNMENT_COMPLETED (not LESSON_COMPLETED). */
+export interface AssignmentCompletedRecord extends RecordBase {
+  type: "ASSIGNMENT_COMPLETED";
+  assignmentId: number;
+  assignedAssignmentId: number;
+}
+
+/** The responses row behind a completed mastery check (velocity uses its DATE(created_at)). */
+export interface MasteryCheckResponseRecord extends RecordBase {
+  type: "MASTERY_CHECK_RESPONSE";
+  questionId: number;
+  assignmentQuestionId: number;
+  assignedAssignmentId: number;
+  selectedChoiceId: string;
+  isCorrect: boolean;
+}
+
+/** One points transaction: positive amounts are earned, negative ones spent. */
+export interface PointsRecord extends RecordBase {
+  type: "POINTS_UPDATED";
+  amount: number;
+  description: string;
+  /** The mastery check a completion award is for */
+  assignmentId: number | null;
+  /** The teacher behind the award or redemption */
+  teacherProfileId: string | null;
+  /** Idempotency key for integration deliveries (Zearn), null otherwise */
+  dedupeKey: string | null;
+}
+
+/** One attendance mark; a later mark for the same date (a correction) takes precedence. */
+export interface AttendanceRecord extends RecordBase {
+  type: "STUDENT_MARKED_PRESENT" | "STUDENT_MARKED_ABSENT";
+  date: string;
+  source: string;
+  sourceDetail: string;
+  /** Teacher profile ID for teacher marks and corrections, null otherwise */
+  markedBy: string | null;
+}
+
+export type SeedRecord =
+  | QuestionShownRecord
+  | QuestionAnsweredRecord
+  | LessonCompletedRecord
+  | AssignmentCompletedRecord
+  | MasteryCheckResponseRecord
+  | PointsRecord
+  | AttendanceRecord;
+
+export interface DailyProgressStats {
+  date: string;
+  /** 1-based module that first produced activity on this date */
+  module: number;
+  completions: number;
+  questions: number;
+  masteryChecks: number;
+}
+
+export interface ProgressPlan {
+  records: SeedRecord[];
+  /** Day offsets (days ago) that fall on school days, oldest first */
+  workingDays: number[];
+  /** Per-date totals, sorted by date */
+  dailyStats: DailyProgressStats[];
+}
+
+/** A student's lesson progress so far, read back from their events */
+export interface StudentProgress {
+  /** Question IDs answered, keyed by lesson assignment ID */
+  answeredByLesson: Map<number, Set<number>>;
+  /** Lesson assignment IDs with LESSON_COMPLETED */
+  completedLessons: Set<number>;
+  /** Mastery check assignment IDs with ASSIGNMENT_COMPLETED */
+  completedMasteryChecks: Set<number>;
+}
+
+export interface DetailedProgressPlan {
+  records: SeedRecord[];
+  /** One log line per student describing the state they were left in */
+  summary: string[];
+}
+
+// =============================================================================
+// RECORD BUILDERS
+// =============================================================================
+
+type LessonRef = Pick<StandaloneLessonData, "lessonId" | "assignedLessonId">;
+
+function base(enrollment: Enrollment, options: PlanOptions, timestamp: string): RecordBase {
+  return {
+    enrollmentId: enrollment.id,
+    studentProfileId: enrollment.studentProfileId,
+    groupId: options.groupId,
+    timestamp,
+  };
+}
+
+// Wrong attempts split the question's step of the class period, so the last
+// attempt still comes before the next question
+const ATTEMPTS_PER_STEP = LESSON_DISTRACTORS.length + 1;
+
+// Chance of giving up after a wrong attempt, scaled by how weak the student is
+const ABANDON_CHANCE = 0.5;
+
+/** Time between the instants from ClassSchedule.steps (under a step when squeezed) */
+function spacingOf(times: string[], options: PlanOptions): number {
+  return times.length > 1 ? Date.parse(times[1]) - Date.parse(times[0]) : options.schedule.stepMinutes * 60 * 1000;
+}
+
+/**
+ * LESSON_QUESTION_SHOWN + one QUESTION_ANSWERED per attempt for one question.
+ * Each attempt's correctness is sampled from the student's mastery of the
+ * question's KC, which can grow between attempts; a wrong attempt picks a
+ * distractor not tried yet, so the student gets it right by the last attempt
+ * at the latest. With canAbandon the student may instead give up after a
+ * wrong attempt (only where the plan leaves the lesson unfinished). Questions without a knowledge component are
+ * answered but never "shown". Attempts split stepMs, the time until the next
+ * question (a full step of the class period unless the day was squeezed).
+ */
+function questionRecords(
+  enrollment: Enrollment,
+  lesson: LessonRef,
+  question: LessonQuestion,
+  questionIndex: number,
+  timestamp: string,
+  options: PlanOptions,
+  canAbandon: boolean = false,
+  stepMs: number = options.schedule.stepMinutes * 60 * 1000
+): SeedRecord[] {
+  const { random, knowledge } = options;
+  const records: SeedRecord[] = [];
+  options.attendance.markActive(enrollment, timestamp);
+  if (question.kcId) {
+    records.push({
+      ...base(enrollment, options, timestamp),
+      type: "LESSON_QUESTION_SHOWN",
+      assignmentId: lesson.lessonId,
+      questionId: question.id,
+      knowledgeComponentId: question.kcId,
+    });
+  }
+
+  const untried = random.shuffle(LESSON_DISTRACTORS);
+  const start = new Date(timestamp).getTime();
+  const attemptMs = stepMs / ATTEMPTS_PER_STEP;
+  for (let attempt = 0; ; attempt++) {
+    const isCorrect = untried.length === 0 || answerCorrectly(enrollment, question.kcId, options);
+    records.push({
+      ...base(enrollment, options, new Date(Math.round(start + attempt * attemptMs)).toISOString()),
+      type: "QUESTION_ANSWERED",
+      questionAttemptId: random.uuid(),
+      assignmentId: lesson.lessonId,
+      questionId: question.id,
+      assignmentQuestionId: question.assignmentQuestionId,
+      questionIndex,
+      isCorrect,
+      answer: isCorrect ? LESSON_CORRECT_ANSWER : untried.pop()!,
+    });
+    if (isCorrect) break;
+    const mastery = question.kcId ? knowledge.mastery(enrollment, question.kcId) : knowledge.overallMastery(enrollment);
+    if (canAbandon && random.chance((1 - mastery) * ABANDON_CHANCE)) break;
+  }
+  return records;
+}
+
+/**
+ * Whether a question's attempts ended with a correct answer.
+ */
+function solved(records: SeedRecord[]): boolean {
+  const last = records[records.length - 1];
+  return last?.type === "QUESTION_ANSWERED" && last.isCorrect;
+}
+
+/**
+ * Sample one answer from the student's mastery of a KC (or their overall
+ * mastery, for questions without one).
+ */
+function answerCorrectly(enrollment: Enrollment, kcId: number | null, options: PlanOptions): boolean {
+  const { knowledge, random } = options;
+  return kcId ? knowledge.attempt(enrollment, kcId) : random.chance(knowledge.chanceCorrect(enrollment));
+}
+
+function lessonCompletedRecord(
+  enrollment: Enrollment,
+  lesson: LessonRef,
+  timestamp: string,
+  options: PlanOptions
+): LessonCompletedRecord {
+  return {
+    ...base(enrollment, options, timestamp),
+    type: "LESSON_COMPLETED",
+    assignmentId: lesson.lessonId,
+    assignedAssignmentId: lesson.assignedLessonId,
+  };
+}
+
+/**
+ * Mastery check response + ASSIGNMENT_COMPLETED, always at the same instant.
+ * The single question tests one of the lesson's KCs, picked at random.
+ */
+function masteryCheckRecords(
+  enrollment: Enrollment,
+  lesson: LessonData,
+  timestamp: string,
+  options: PlanOptions
+): SeedRecord[] {
+  options.attendance.markActive(enrollment, timestamp);
+  return [
+    {
+      ...base(enrollment, options, timestamp),
+      type: "MASTERY_CHECK_RESPONSE",
+      questionId: lesson.masteryQuestion.id,
+      assignmentQuestionId: lesson.masteryQuestion.assignmentQuestionId,
+      assignedAssignmentId: lesson.assignedMasteryId,
+      selectedChoiceId: options.random.uuid(),
+      isCorrect: answerCorrectly(enrollment, options.random.pick(lesson.questions)?.kcId ?? null, options),
+    },
+    {
+      ...base(enrollment, options, timestamp),
+      type: "ASSIGNMENT_COMPLETED",
+      assignmentId: lesson.masteryCheckId,
+      assignedAssignmentId: lesson.assignedMasteryId,
+    },
+  ];
+}
+
+// =============================================================================
+// PAIRED LESSON PROGRESS
+// =============================================================================
+
+/**
+ * Plan progress events spread across the seed window showing growth over time.
+ *
+ * Key strategy for realistic pacing:
+ * - Students complete modules SEQUENTIALLY (all of module 1 before starting module 2)
+ * - Each student completes their persona's completionRate of each module's
+ *   lessons, starting startDelay into the module's window
+ * - Students only work on days the attendance schedule has them present, so
+ *   absences push their work to the next day they're in class
+ * - Some mastery checks are delayed to the next working day after lesson
+ *   completion, and some lessons split across two days (persona chances)
+ *
+ * Callers leave out the lesson planDetailedProgress covers, so no student answers it twice.
+ *
+ * @param lessonsByModule - Array of lesson arrays, one per module, in order
+ */
+export function planProgressEvents(
+  enrollments: Enrollment[],
+  lessonsByModule: LessonData[][],
+  options: PlanOptions
+): ProgressPlan {
+  const { clock, daysToSeed, random, calendar, schedule } = options;
+  const totalLessons = lessonsByModule.reduce((sum, m) => sum + m.length, 0);
+  const records: SeedRecord[] = [];
+
+  // Working days are the school days before today
+  const workingDays = calendar.schoolDays(daysToSeed, 1);
+
+  // Split working days between modules (proportional to lesson count)
+  const moduleWorkingDays: number[][] = [];
+  let dayIndex = 0;
+  for (let m = 0; m < lessonsByModule.length; m++) {
+    const moduleLessonCount = lessonsByModule[m].length;
+    // Leave a day for each later module when school days are short (e.g. just after the term starts)
+    const laterModules = lessonsByModule.length - m - 1;
+    const moduleDayCount = Math.max(
+      1,
+      Math.min(Math.ceil((moduleLessonCount / totalLessons) * workingDays.length), workingDays.length - dayIndex - laterModules)
+    );
+    const endIndex = Math.min(dayIndex + moduleDayCount, workingDays.length);
+    // With fewer school days than modules, later modules share the last one
+    moduleWorkingDays.push(endIndex > dayIndex ? workingDays.slice(dayIndex, endIndex) : workingDays.slice(-1));
+    dayIndex = endIndex;
+  }
+  // Ensure last module gets remaining days
+  if (dayIndex < workingDays.length) {
+    moduleWorkingDays[moduleWorkingDays.length - 1].push(...workingDays.slice(dayIndex));
+  }
+
+  // Track daily stats
+  const dailyStats = new Map<string, DailyProgressStats>();
+  const statsFor = (timestamp: string, moduleIndex: number): DailyProgressStats => {
+    const date = toSchoolDateString(clock, new Date(timestamp));
+    if (!dailyStats.has(date)) {
+      dailyStats.set(date, { date, module: moduleIndex + 1, completions: 0, questions: 0, masteryChecks: 0 });
+    }
+    return dailyStats.get(date)!;
+  };
+
+  // Track pending mastery checks (lesson completed but mastery check delayed)
+  interface PendingMasteryCheck {
+    enrollment: Enrollment;
+    lesson: LessonData;
+    scheduledDayOffset: number;
+    moduleIndex: number;
+  }
+  const pendingMasteryChecks: PendingMasteryCheck[] = [];
+
+  // Track partial lesson progress (lesson started but not completed, to be continued next day)
+  interface PartialLessonProgress {
+    enrollment: Enrollment;
+    lesson: LessonData;
+    questionsCompleted: number;
+    scheduledDayOffset: number;
+    moduleIndex: number;
+    /** The student's present days in the module's window */
+    availableDays: number[];
+  }
+  const partialLessonProgress: PartialLessonProgress[] = [];
+
+  // Helper to get the student's next day in class within the module's time
+  // window; past its end, their next school day in class before today, or the
+  // same day when there is none (callers then finish the work that day)
+  const getNextWorkingDay = (enrollment: Enrollment, currentDayOffset: number, moduleDays: number[]): number => {
+    const currentIndex = moduleDays.indexOf(currentDayOffset);
+    if (currentIndex !== -1 && currentIndex < moduleDays.length - 1) {
+      return moduleDays[currentIndex + 1];
+    }
+    for (let d = calendar.nextSchoolDay(currentDayOffset); d !== null && d >= 1; d = calendar.nextSchoolDay(d)) {
+      if (options.attendance.present(enrollment, d)) return d;
+    }
+    return currentDayOffset;
+  };
+
+  // Process each student (zero-start students complete nothing, so get no events)
+  for (const enrollment of enrollments) {
+    const { persona } = enrollment;
+
+    // Process each module sequentially
+    for (let moduleIndex = 0; moduleIndex < lessonsByModule.length; moduleIndex++) {
+      const moduleLessons = lessonsByModule[moduleIndex];
+      const moduleDays = moduleWorkingDays[moduleIndex];
+
+      if (moduleDays.length === 0) continue;
+
+      // How many lessons in THIS module will this student complete?
+      const lessonsToCompleteInModule = Math.ceil(moduleLessons.length * persona.completionRate);
+
+      if (lessonsToCompleteInModule === 0) continue;
+
+      // Calculate pacing within this module's time window, over the days the student is in class
+      const startDayIndex = Math.floor(moduleDays.length * persona.startDelay);
+      const availableDays = moduleDays.slice(startDayIndex).filter((d) => options.attendance.present(enrollment, d));
+
+      if (availableDays.length === 0) continue;
+
+      // Calculate how many days to use per lesson (may be split across multiple days)
+      const daysPerLesson = Math.max(1, Math.floor(availableDays.length / lessonsToCompleteInModule));
+
+      let dayIdxOffset = 0;
+
+      for (let lessonIdx = 0; lessonIdx < lessonsToCompleteInModule; lessonIdx++) {
+        const lesson = moduleLessons[lessonIdx];
+        const totalQuestions = lesson.questions.length;
+
+        // Day 1: Complete first batch of questions (or all if not splitting)
+        const day1Idx = Math.min(dayIdxOffset, availableDays.length - 1);
+        const day1Offset = availableDays[day1Idx];
+        const nextWorkingDay = getNextWorkingDay(enrollment, day1Offset, availableDays);
+        const hasNextDay = nextWorkingDay !== day1Offset;
+
+        // Some lessons split across 2 days, and every lesson started on a half day
+        // does, unless the student has no later day in class to finish on
+        const splitLesson =
+          totalQuestions >= 2 &&
+          (calendar.isHalfDay(day1Offset) || random.chance(persona.splitLessonChance)) &&
+          hasNextDay;
+        const questionsDay1 = splitLesson ? Math.floor(totalQuestions / 2) : totalQuestions;
+        const questionsDay2 = splitLesson ? totalQuestions - questionsDay1 : 0;
+        const day1Stats = statsFor(schedule.at(day1Offset), moduleIndex);
+        // Lessons clamped onto a day the student already worked on follow that work
+        const day1Times = options.timeline.steps(schedule, enrollment.id, day1Offset, 0, questionsDay1 + (splitLesson ? 0 : 1));
+
+        // Answer questions for day 1
+        for (let q = 0; q < questionsDay1; q++) {
+          records.push(...questionRecords(enrollment, lesson, lesson.questions[q], q, day1Times[q], options, false, spacingOf(day1Times, options)));
+          day1Stats.questions++;
+        }
+
+        // If splitting, track partial progress for day 2
+        if (splitLesson && questionsDay2 > 0) {
+          partialLessonProgress.push({
+            enrollment,
+            lesson,
+            questionsCompleted: questionsDay1,
+            scheduledDayOffset: nextWorkingDay,
+            moduleIndex,
+            availableDays,
+          });
+          dayIdxOffset += 2; // Skip an extra day since lesson spans 2 days
+        } else {
+          // Complete lesson today
+          const completedTimestamp = day1Times[questionsDay1];
+          records.push(lessonCompletedRecord(enrollment, lesson, completedTimestamp, options));
+          day1Stats.completions++;
+
+          // Some mastery checks wait for the next working day (when there is one)
+          const delayMasteryCheck = random.chance(persona.masteryDelayChance);
+
+          if (delayMasteryCheck && day1Offset > 1 && hasNextDay) {
+            pendingMasteryChecks.push({
+              enrollment,
+              lesson,
+              scheduledDayOffset: nextWorkingDay,
+              moduleIndex,
+            });
+          } else {
+            records.push(...masteryCheckRecords(enrollment, lesson, completedTimestamp, options));
+            day1Stats.masteryChecks++;
+          }
+
+          dayIdxOffset += daysPerLesson;
+        }
+      }
+    }
+  }
+
+  // Process partial lesson completions (day 2 of split lessons)
+  for (const partial of partialLessonProgress) {
+    const { enrollment, lesson, questionsCompleted, scheduledDayOffset, moduleIndex, availableDays } = partial;
+    const day2Stats = statsFor(schedule.at(scheduledDayOffset), moduleIndex);
+    const remaining = lesson.questions.length - questionsCompleted;
+    const day2Times = options.timeline.steps(schedule, enrollment.id, scheduledDayOffset, 0, remaining + 1);
+
+    // Complete remaining questions
+    for (let q = questionsCompleted; q < lesson.questions.length; q++) {
+      records.push(
+        ...questionRecords(enrollment, lesson, lesson.questions[q], q, day2Times[q - questionsCompleted], options, false, spacingOf(day2Times, options))
+      );
+      day2Stats.questions++;
+    }
+
+    // Complete the lesson
+    const completedTimestamp = day2Times[remaining];
+    records.push(lessonCompletedRecord(enrollment, lesson, completedTimestamp, options));
+    day2Stats.completions++;
+
+    // Some mastery checks wait for the next working day (when there is one;
+    // on the same day it would land before the lesson is completed)
+    const delayMasteryCheck = random.chance(enrollment.persona.masteryDelayChance);
+    const nextWorkingDay = getNextWorkingDay(enrollment, scheduledDayOffset, availableDays);
+
+    if (delayMasteryCheck && scheduledDayOffset > 1 && nextWorkingDay !== scheduledDayOffset) {
+      pendingMasteryChecks.push({
+        enrollment,
+        lesson,
+        scheduledDayOffset: nextWorkingDay,
+        moduleIndex,
+      });
+    } else {
+      records.push(...masteryCheckRecords(enrollment, lesson, completedTimestamp, options));
+      day2Stats.masteryChecks++;
+    }
+  }
+
+  // Process pending mastery checks (those delayed to next day)
+  for (const pending of pendingMasteryChecks) {
+    const [masteryTimestamp] = options.timeline.steps(schedule, pending.enrollment.id, pending.scheduledDayOffset, 2, 1);
+    records.push(...masteryCheckRecords(pending.enrollment, pending.lesson, masteryTimestamp, options));
+    statsFor(masteryTimestamp, pending.moduleIndex).masteryChecks++;
+  }
+
+  return {
+    records,
+    workingDays,
+    dailyStats: Array.from(dailyStats.values()).sort((a, b) => a.date.localeCompare(b.date)),
+  };
+}
+
+// =============================================================================
+// DETAILED PROGRESS (TODAY / YESTERDAY / EARLIER)
+// =============================================================================
+
+/**
+ * Plan detailed progress for one lesson with varied distribution.
+ * Shows Today/Yesterday/Earlier distinctions on the dashboard.
+ * Includes students who completed lesson but haven't done mastery check yet.
+ * Each student's state on the lesson comes from their persona's currentLesson.
+ */
+export function planDetailedProgress(
+  enrollments: Enrollment[],
+  lesson: LessonData,
+  options: PlanOptions
+): DetailedProgressPlan {
+  const { random, calendar, schedule } = options;
+  const records: SeedRecord[] = [];
+  const summary: string[] = [];
+  const allQuestions = lesson.questions.length;
+
+  for (const enrollment of enrollments) {
+    const { persona } = enrollment;
+    if (persona.key === "zero-start") {
+      summary.push(`- ${enrollment.name}: Zero-start student (no events)`);
+      continue;
+    }
+
+    let questionsCompleted: number = 0;
+    let lessonCompleted = false;
+    let masteryCheckCompleted = false;
+    let timestampPeriod: "today" | "yesterday" | "earlier" = "today";
+
+    switch (persona.currentLesson) {
+      case "not-started":
+        summary.push(`- ${enrollment.name}: Not started`);
+        continue;
+      case "in-progress-today":
+        // In progress - Q1 done today
+        questionsCompleted = 1;
+        timestampPeriod = "today";
+        summary.push(`> ${enrollment.name}: In progress (Q1 done)`);
+        break;
+      case "in-progress-earlier":
+        // In progress - Q2 or Q3 done earlier
+        questionsCompleted = Math.min(2 + random.int(2), allQuestions - 1);
+        timestampPeriod = "earlier";
+        summary.push(`> ${enrollment.name}: In progress (Q${questionsCompleted} done)`);
+        break;
+      case "mastery-check-pending":
+        // Lesson completed yesterday, mastery check PENDING (will do today)
+        questionsCompleted = allQuestions;
+        lessonCompleted = true;
+        timestampPeriod = "yesterday";
+        summary.push(`~ ${enrollment.name}: Lesson done (yesterday), mastery check pending`);
+        break;
+      case "mastery-check-today":
+        // Lesson completed yesterday, mastery check done today
+        questionsCompleted = allQuestions;
+        lessonCompleted = true;
+        masteryCheckCompleted = true;
+        timestampPeriod = "yesterday";
+        summary.push(`+ ${enrollment.name}: Lesson (yesterday) + mastery check (today)`);
+        break;
+      case "completed-yesterday":
+        questionsCompleted = allQuestions;
+        lessonCompleted = true;
+        masteryCheckCompleted = true;
+        timestampPeriod = "yesterday";
+        summary.push(`+ ${enrollment.name}: Both completed (yesterday)`);
+        break;
+      case "completed-today":
+        questionsCompleted = allQuestions;
+        lessonCompleted = true;
+        masteryCheckCompleted = true;
+        timestampPeriod = "today";
+        summary.push(`+ ${enrollment.name}: Both completed (today)`);
+        break;
+    }
+
+    // Lay the student's work out in consecutive steps of the class period on
+    // that school day, staggered per student and after any earlier lesson
+    // they worked on that day. This ensures
+    // Q1 < Q2 < Q3 < Q4 < lesson completion < mastery check in time order
+    const dayOffset = getDashboardDayOffset(calendar, schedule.latestDay, random, timestampPeriod);
+    const times = options.timeline.steps(schedule, enrollment.id, dayOffset, random.int(4), questionsCompleted + 2);
+
+    for (let q = 0; q < questionsCompleted; q++) {
+      const question = lesson.questions[q];
+      if (!question) continue;
+
+      // A student still in the lesson may have given up on the last question they tried
+      const canAbandon = !lessonCompleted && q === questionsCompleted - 1;
+      const attempts = questionRecords(enrollment, lesson, question, q, times[q], options, canAbandon, spacingOf(times, options));
+      records.push(...attempts);
+      if (!solved(attempts)) {
+        summary[summary.length - 1] += `, gave up on Q${q + 1}`;
+      }
+    }
+
+    if (lessonCompleted) {
+      // Lesson completion happens the step after the last question
+      records.push(lessonCompletedRecord(enrollment, lesson, times[questionsCompleted], options));
+
+      if (masteryCheckCompleted) {
+        // Determine when mastery check was completed
+        let masteryTs: string;
+        if (persona.currentLesson === "mastery-check-today") {
+          // Lesson yesterday, mastery check early in today's class
+          const todayOffset = getDashboardDayOffset(calendar, schedule.latestDay, random, "today");
+          [masteryTs] = options.timeline.steps(schedule, enrollment.id, todayOffset, random.int(3), 1);
+        } else {
+          // Same day as lesson (the step after completing it)
+          masteryTs = times[questionsCompleted + 1];
+        }
+        records.push(...masteryCheckRecords(enrollment, lesson, masteryTs, options));
+      }
+      // Otherwise ("mastery-check-pending") the lesson is done but the mastery check is pending
+    }
+  }
+
+  return { records, summary };
+}
+
+// =============================================================================
+// ADVANCE ONE SCHOOL DAY
+// =============================================================================
+
+/**
+ * Plan one more school day of activity, continuing each student from where
+ * their events leave off:
+ * - Students work on days the attendance schedule has them present, during
+ *   the group's class period
+ * - Mastery checks left pending after a completed lesson are done first
+ * - Then the student resumes their partly answered lesson, or starts the next
+ *   one in module order, and usually completes it (splitLessonChance stop
+ *   halfway, as does everyone starting a lesson on a half day)
+ * - masteryDelayChance of mastery checks are again left for the next school day
+ * - Every student who works is marked present and, where the group earns
+ *   points, gets MASTERY_CHECK_POINTS per mastery check
+ *
+ * Always-complete students work every day and never leave anything pending;
+ * zero-start students stay untouched. At most one new lesson per student per day.
+ *
+ * @param dayOffset - Days ago of the day being added (0 = today)
+ */
+export function planAdvanceDay(
+  enrollments: Enrollment[],
+  lessonsByModule: LessonData[][],
+  progressByEnrollment: Map<number, StudentProgress>,
+  dayOffset: number,
+  rules: PointsRules,
+  options: PlanOptions
+): DetailedProgressPlan {
+  const { clock, random } = options;
+  const lessons = lessonsByModule.flat();
+  const date = getDateDaysAgo(clock, dayOffset);
+  const records: SeedRecord[] = [];
+  const summary: string[] = [];
+
+  for (let i = 0; i < enrollments.length; i++) {
+    const enrollment = enrollments[i];
+    const { persona } = enrollment;
+    if (persona.key === "zero-start") {
+      summary.push(`- ${enrollment.name}: Zero-start student (no events)`);
+      continue;
+    }
+
+    if (!options.attendance.present(enrollment, dayOffset)) {
+      summary.push(`- ${enrollment.name}: Absent`);
+      continue;
+    }
+
+    const progress = progressByEnrollment.get(enrollment.id) ?? {
+      answeredByLesson: new Map(),
+      completedLessons: new Set(),
+      completedMasteryChecks: new Set(),
+    };
+    const pendingMasteryChecks = lessons.filter(
+      (l) => progress.completedLessons.has(l.lessonId) && !progress.completedMasteryChecks.has(l.masteryCheckId)
+    );
+    const nextLesson = lessons.find((l) => !progress.completedLessons.has(l.lessonId));
+    const remaining = nextLesson
+      ? nextLesson.questions.filter((q) => !progress.answeredByLesson.get(nextLesson.lessonId)?.has(q.id))
+      : [];
+
+    // Lay the day out in steps of the class period, staggered per student and
+    // squeezed to fit it; during today's period everything is pulled back so
+    // it ends before "now". Room for each mastery check and its points, the
+    // questions, and the lesson's completion, mastery check and points.
+    const times = options.schedule.steps(dayOffset, i % 4, 2 * pendingMasteryChecks.length + remaining.length + 3);
+    let next = 0;
+    const step = (): string => times[Math.min(next++, times.length - 1)];
+
+    records.push({
+      ...base(enrollment, options, times[0]),
+      type: "STUDENT_MARKED_PRESENT",
+      date,
+      ...ATTENDANCE_SOURCES.autoMark,
+      markedBy: null,
+    });
+
+    const done: string[] = [];
+    const masteryChecksDone: LessonData[] = [];
+
+    for (const lesson of pendingMasteryChecks) {
+      records.push(...masteryCheckRecords(enrollment, lesson, step(), options));
+      done.push(`mastery check for ${lesson.lessonTitle}`);
+      masteryChecksDone.push(lesson);
+    }
+
+    if (!nextLesson) {
+      summary.push(`+ ${enrollment.name}: ${[...done, "all lessons complete"].join(", ")}`);
+    } else {
+      // Resume a partly answered lesson, or stop halfway through a new one
+      const started = remaining.length < nextLesson.questions.length;
+      const stopHalfway =
+        !started &&
+        remaining.length >= 2 &&
+        (options.calendar.isHalfDay(dayOffset) || random.chance(persona.splitLessonChance));
+      const toAnswer = stopHalfway ? remaining.slice(0, Math.floor(remaining.length / 2)) : remaining;
+
+      let gaveUp = false;
+      for (const question of toAnswer) {
+        const questionIndex = nextLesson.questions.indexOf(question);
+        const canAbandon = stopHalfway && question === toAnswer[toAnswer.length - 1];
+        const attempts = questionRecords(
+          enrollment,
+          nextLesson,
+          question,
+          questionIndex,
+          step(),
+          options,
+          canAbandon,
+          spacingOf(times, options)
+        );
+        records.push(...attempts);
+        gaveUp = !solved(attempts);
+      }
+
+      if (stopHalfway) {
+        const solvedCount = gaveUp ? toAnswer.length - 1 : toAnswer.length;
+        done.push(
+          `${nextLesson.lessonTitle} in progress (${solvedCount}/${nextLesson.questions.length}` +
+            `${gaveUp ? `, gave up on Q${nextLesson.questions.indexOf(toAnswer[toAnswer.length - 1]) + 1}` : ""})`
+        );
+      } else {
+        const completedAt = step();
+        records.push(lessonCompletedRecord(enrollment, nextLesson, completedAt, options));
+
+        const delayMasteryCheck = random.chance(persona.masteryDelayChance);
+        if (delayMasteryCheck) {
+          done.push(`${nextLesson.lessonTitle} done, mastery check pending`);
+        } else {
+          records.push(...masteryCheckRecords(enrollment, nextLesson, step(), options));
+          done.push(`${nextLesson.lessonTitle} + mastery check`);
+          masteryChecksDone.push(nextLesson);
+        }
+      }
+      summary.push(`${stopHalfway ? ">" : "+"} ${enrollment.name}: ${done.join(", ")}`);
+    }
+
+    if (rules.automaticPoints) {
+      for (const lesson of masteryChecksDone) {
+        records.push(masteryCheckAward(enrollment, lesson.masteryCheckId, lesson.masteryCheckTitle, step(), rules, options));
+      }
+    }
+  }
+
+  return { records, summary };
+}
+
+// =============================================================================
+// STANDALONE (RAMP-UP) LESSONS
+// =============================================================================
+
+/**
+ * Plan completion events for standalone (ramp-up) lessons.
+ * All students complete all ramp-up lessons early in the time window since
+ * these are introductory lessons that precede the main paired lessons.
+ */
+export function planStandaloneLessonEvents(
+  enrollments: Enrollment[],
+  standaloneLessonsByModule: StandaloneLessonData[][],
+  options: PlanOptions
+): SeedRecord[] {
+  const { daysToSeed, schedule } = options;
+  const records: SeedRecord[] = [];
+
+  for (let moduleIndex = 0; moduleIndex < standaloneLessonsByModule.length; moduleIndex++) {
+    const standaloneLessons = standaloneLessonsByModule[moduleIndex];
+
+    for (let lessonIdx = 0; lessonIdx < standaloneLessons.length; lessonIdx++) {
+      const lesson = standaloneLessons[lessonIdx];
+      // Place ramp-up completions early in the time window, offset by module
+      const baseDayOffset = daysToSeed - (moduleIndex * Math.floor(daysToSeed / 2)) - lessonIdx;
+
+      for (let i = 0; i < enrollments.length; i++) {
+        const enrollment = enrollments[i];
+        // Skip zero-start students - they haven't started anything
+        if (enrollment.persona.key === "zero-start") continue;
+
+        // Students who start later in each module finish ramp-ups later too,
+        // on their first school day in class from then on
+        const studentDayOffset = rampUpDay(
+          enrollment,
+          Math.max(1, baseDayOffset - Math.round(enrollment.persona.startDelay * 10)),
+          options
+        );
+
+        // Question shown + answered events, then lesson completed, after any
+        // earlier ramp-up the student finished that day
+        const times = options.timeline.steps(schedule, enrollment.id, studentDayOffset, i % 4, lesson.questions.length + 1);
+        for (let q = 0; q < lesson.questions.length; q++) {
+          records.push(...questionRecords(enrollment, lesson, lesson.questions[q], q, times[q], options, false, spacingOf(times, options)));
+        }
+        records.push(lessonCompletedRecord(enrollment, lesson, times[lesson.questions.length], options));
+      }
+    }
+  }
+
+  return records;
+}
+
+/**
+ * The first school day at or after dayOffset (before today) that the student
+ * is in class, else the first school day, else the last one before dayOffset.
+ */
+function rampUpDay(enrollment: Enrollment, dayOffset: number, options: PlanOptions): number {
+  const { calendar, attendance } = options;
+  const schoolDays = calendar.schoolDays(dayOffset, 1);
+  return schoolDays.find((d) => attendance.present(enrollment, d)) ?? schoolDays[0] ?? calendar.schoolDayOnOrBefore(dayOffset);
+}
+
+// =============================================================================
+// POINTS
+// =============================================================================
+
+/** How a group earns points, per modules/points/points.awarding.service.ts */
+export interface PointsRules {
+  /** is313 group with a whitelisted code: mastery checks and Zearn lessons earn points */
+  automaticPoints: boolean;
+  /** The teacher who assigned the mastery checks and gives awards */
+  teacherProfileId: string;
+  /** Reward-goal state to land the group on (no redemptions), or null */
+  scenario: RewardScenario | null;
+}
+
+/** A completed mastery check, as written by the progress planners or read back from events */
+export type MasteryCheckCompletion = Pick<AssignmentCompletedRecord, "enrollmentId" | "assignmentId" | "timestamp">;
+
+// Awards a teacher hands out by hand, on days the student is in class
+const TEACHER_AWARDS = [
+  { description: "Teacher Award: Great Participation", amount: 10 },
+  { description: "Teacher Award: Helping a Classmate", amount: 5 },
+  { description: "Teacher Award: Perseverance", amount: 10 },
+  { description: "Teacher Award: Exit Ticket", amount: 5 },
+];
+
+// Class store rewards students spend points on
+const REWARDS = [
+  { description: "Redeemed: Homework Pass", cost: 25 },
+  { description: "Redeemed: Choose Your Seat", cost: 15 },
+  { description: "Redeemed: Class DJ", cost: 10 },
+];
+
+// The Zearn mission students work through (lessons G8M1L1, G8M1L2, ...)
+const ZEARN_MISSION = "G8M1";
+
+// Chance TL Connect delivers a Zearn completion a second time with the same
+// dedupe key (a retried webhook), a few minutes after the first
+const ZEARN_REDELIVERY_CHANCE = 0.25;
+const ZEARN_REDELIVERY_MAX_MINUTES = 30;
+
+/**
+ * Points rules for a group: mastery checks and Zearn lessons only earn points
+ * in is313 groups whose code is on POINTS_GROUP_WHITELIST.
+ */
+export function pointsRulesFor(
+  group: Group,
+  teacherProfileId: string,
+  scenario: RewardScenario | null = null
+): PointsRules {
+  return {
+    automaticPoints: group.is313 && POINTS_GROUP_WHITELIST.includes(group.group_code),
+    teacherProfileId,
+    scenario,
+  };
+}
+
+/**
+ * A teacher award on one of the student's days in class, at a random step of
+ * the class period.
+ */
+function teacherAward(
+  enrollment: Enrollment,
+  day: AttendanceDay,
+  award: (typeof TEACHER_AWARDS)[number],
+  rules: PointsRules,
+  options: PlanOptions
+): PointsRecord {
+  return {
+    ...base(enrollment, options, options.schedule.at(day.dayOffset, 1 + options.random.int(5))),
+    type: "POINTS_UPDATED",
+    ...award,
+    assignmentId: null,
+    teacherProfileId: rules.teacherProfileId,
+    dedupeKey: null,
+  };
+}
+
+/**
+ * The award for one completed mastery check, e.g. "Completed Mastery Check: Lesson 5".
+ */
+function masteryCheckAward(
+  enrollment: Enrollment,
+  masteryCheckId: number,
+  masteryCheckTitle: string,
+  timestamp: string,
+  rules: PointsRules,
+  options: PlanOptions
+): PointsRecord {
+  return {
+    ...base(enrollment, options, timestamp),
+    type: "POINTS_UPDATED",
+    amount: MASTERY_CHECK_POINTS,
+    description: `Completed Mastery Check: ${masteryCheckTitle.split(":")[0]}`,
+    assignmentId: masteryCheckId,
+    teacherProfileId: rules.teacherProfileId,
+    dedupeKey: null,
+  };
+}
+
+/**
+ * The student's Zearn lessons over the window: on each day in class they
+ * finish the next lesson of ZEARN_MISSION with the persona's zearnRate. Each
+ * arrives through TL Connect with a TL_CONNECT_ZEARN:{email}:{lesson}:{date}
+ * dedupe key.
+ */
+function zearnAwards(enrollment: Enrollment, daysInClass: AttendanceDay[], options: PlanOptions): PointsRecord[] {
+  const { random } = options;
+  const awards: PointsRecord[] = [];
+  for (const day of daysInClass) {
+    if (!random.chance(enrollment.persona.zearnRate)) continue;
+    const lesson = `${ZEARN_MISSION}L${awards.length + 1}`;
+    awards.push({
+      ...base(enrollment, options, options.schedule.at(day.dayOffset, 1 + random.int(5))),
+      type: "POINTS_UPDATED",
+      amount: ZEARN_LESSON_POINTS,
+      description: `Completed Zearn Lesson: ${lesson}`,
+      assignmentId: null,
+      teacherProfileId: null,
+      dedupeKey: `${ZEARN_DEDUPE_PREFIX}:${enrollment.email}:${lesson}:${day.date}`,
+    });
+  }
+  return awards;
+}
+
+/**
+ * Plan the points ledger for a group's students:
+ * - MASTERY_CHECK_POINTS at every completed mastery check, if the group's
+ *   rules award them
+ * - The persona's teacherAwards, on random days the student was in class
+ * - ZEARN_LESSON_POINTS per Zearn lesson, if the group's rules award them,
+ *   some delivered twice with the same dedupeKey (the duplicate is what the
+ *   points projection has to ignore)
+ * - Redemptions (negative amounts) after some awards, whenever the balance
+ *   covers a reward, with the persona's spendChance
+ * Balances, counting each dedupeKey once, never go negative. Transactions
+ * that would land after "now" are left out. With a reward scenario there are
+ * no redemptions, and extra teacher awards bring the balances to the
+ * scenario's state (see rewardGoalsFor).
+ *
+ * @param completions - The group's completed mastery checks (plan progress first)
+ * @param lessons - Every paired lesson, for mastery check titles
+ */
+export function planPointsEvents(
+  enrollments: Enrollment[],
+  completions: MasteryCheckCompletion[],
+  lessons: LessonData[],
+  rules: PointsRules,
+  options: PlanOptions
+): PointsRecord[] {
+  const { clock, random } = options;
+  const now = clock.now().toISOString();
+  const titles = new Map(lessons.map((l) => [l.masteryCheckId, l.masteryCheckTitle]));
+  const records: PointsRecord[] = [];
+
+  for (const enrollment of enrollments) {
+    const { persona } = enrollment;
+    const earned: PointsRecord[] = [];
+
+    if (rules.automaticPoints) {
+      for (const completion of completions) {
+        const title = titles.get(completion.assignmentId);
+        if (completion.enrollmentId !== enrollment.id || title === undefined) continue;
+        earned.push(masteryCheckAward(enrollment, completion.assignmentId, title, completion.timestamp, rules, options));
+      }
+    }
+
+    const daysInClass = options.attendance.days(enrollment).filter((d) => d.status !== "absent");
+    for (let a = 0; a < persona.teacherAwards && daysInClass.length > 0; a++) {
+      earned.push(teacherAward(enrollment, random.pick(daysInClass), random.pick(TEACHER_AWARDS), rules, options));
+    }
+    if (rules.automaticPoints) earned.push(...zearnAwards(enrollment, daysInClass, options));
+
+    // Walk the awards in time order, redeeming rewards the balance covers
+    earned.sort((a, b) => a.timestamp.localeCompare(b.timestamp));
+    let balance = 0;
+    for (const award of earned) {
+      if (award.timestamp > now) continue;
+      records.push(award);
+      balance += award.amount;
+
+      if (award.dedupeKey !== null && random.chance(ZEARN_REDELIVERY_CHANCE)) {
+        const minutes = 1 + random.int(ZEARN_REDELIVERY_MAX_MINUTES);
+        const redeliveredAt = new Date(new Date(award.timestamp).getTime() + minutes * 60 * 1000).toISOString();
+        if (redeliveredAt <= now) records.push({ ...award, timestamp: redeliveredAt });
+      }
+
+      // Scenarios keep balances equal to points earned, so the class total
+      // means the same whichever way the smartboard counts it
+      if (rules.scenario !== null) continue;
+      const affordable = REWARDS.filter((r) => r.cost <= balance);
+      if (affordable.length === 0 || !random.chance(persona.spendChance)) continue;
+      const reward = random.pick(affordable);
+      const spentAt = new Date(new Date(award.timestamp).getTime() + 60 * 60 * 1000).toISOString();
+      if (spentAt > now) continue;
+      records.push({
+        ...base(enrollment, options, spentAt),
+        type: "POINTS_UPDATED",
+        amount: -reward.cost,
+        description: reward.description,
+        assignmentId: null,
+        teacherProfileId: rules.teacherProfileId,
+        dedupeKey: null,
+      });
+      balance -= reward.cost;
+    }
+  }
+
+  if (rules.scenario !== null) {
+    records.push(...rewardScenarioAwards(enrollments, records, rules.scenario, rules, options));
+  }
+  return records;
+}
+
+// Reward goals are picked in steps of these, so they look like a teacher's
+const REWARD_GOAL_STEP = 50;
+const STUDENT_TARGET_STEP = 25;
+
+/**
+ * Each student's balance (enrollment order) as studentPoints.projection
+ * computes it: every dedupeKey counts once.
+ */
+export function pointsBalances(enrollments: Enrollment[], records: PointsRecord[]): number[] {
+  const balances = new Map(enrollments.map((e) => [e.id, 0]));
+  const dedupeKeys = new Set<string>();
+  for (const record of records) {
+    if (record.dedupeKey !== null) {
+      if (dedupeKeys.has(record.dedupeKey)) continue;
+      dedupeKeys.add(record.dedupeKey);
+    }
+    const balance = balances.get(record.enrollmentId);
+    if (balance !== undefined) balances.set(record.enrollmentId, balance + record.amount);
+  }
+  return enrollments.map((e) => balances.get(e.id)!);
+}
+
+/**
+ * The pacing goals that put a group's balances exactly in a scenario's state:
+ * - classProgress: pointsRewardGoal is the class total divided by it
+ * - studentsAboveTarget: studentPointsTarget is the first STUDENT_TARGET_STEP
+ *   above the next student's balance (at least the default target), and the
+ *   class goal stays out of reach
+ * planPointsEvents tops balances up so these come out as round numbers; with
+ * balances read back from the database the state is just as exact.
+ */
+export function rewardGoalsFor(scenario: RewardScenario, balances: number[]): RewardGoals {
+  const { classProgress, studentsAboveTarget } = REWARD_SCENARIOS[scenario];
+  const total = balances.reduce((sum, b) => sum + b, 0);
+  if (classProgress !== null) {
+    return { ...DEFAULT_REWARD_GOALS, pointsRewardGoal: Math.round(total / classProgress) };
+  }
+  return {
+    ...DEFAULT_REWARD_GOALS,
+    pointsRewardGoal: Math.max(DEFAULT_REWARD_GOALS.pointsRewardGoal, roundUp(2 * total, REWARD_GOAL_STEP)),
+    studentPointsTarget: studentTargetAbove([...balances].sort((a, b) => b - a)[studentsAboveTarget!] ?? 0),
+  };
+}
+
+/**
+ * Teacher awards on earlier days in class that bring the group's balances to
+ * the scenario's state:
+ * - classProgress: the class total reaches that share of the smallest round
+ *   goal (at least the default) it doesn't already pass
+ * - studentsAboveTarget: the top students by balance each end above the target
+ *   picked by rewardGoalsFor; nobody else changes
+ */
+function rewardScenarioAwards(
+  enrollments: Enrollment[],
+  records: PointsRecord[],
+  scenario: RewardScenario,
+  rules: PointsRules,
+  options: PlanOptions
+): PointsRecord[] {
+  const { random } = options;
+  const { classProgress, studentsAboveTarget } = REWARD_SCENARIOS[scenario];
+  const balances = pointsBalances(enrollments, records);
+  // Past days in class only, so no award lands after "now"
+  const pastDays = enrollments.map((e) =>
+    options.attendance.days(e).filter((d) => d.status !== "absent" && d.dayOffset > 0)
+  );
+  const awards: PointsRecord[] = [];
+
+  // One award to student i, no bigger than what's left to give; 0 if none fits
+  const give = (i: number, remaining: number): number => {
+    const fitting = TEACHER_AWARDS.filter((a) => a.amount <= remaining);
+    if (fitting.length === 0 || pastDays[i].length === 0) return 0;
+    const award = random.pick(fitting);
+    awards.push(teacherAward(enrollments[i], random.pick(pastDays[i]), award, rules, options));
+    return award.amount;
+  };
+
+  if (classProgress !== null) {
+    const total = balances.reduce((sum, b) => sum + b, 0);
+    const goal = Math.max(DEFAULT_REWARD_GOALS.pointsRewardGoal, roundUp(total / classProgress, REWARD_GOAL_STEP));
+    let missing = Math.round(goal * classProgress) - total;
+    // Students who get teacher awards anyway (or anyone, if nobody does)
+    const inClass = enrollments.map((_, i) => i).filter((i) => pastDays[i].length > 0);
+    const awarded = inClass.filter((i) => enrollments[i].persona.teacherAwards > 0);
+    const recipients = awarded.length > 0 ? awarded : inClass;
+    while (missing > 0 && recipients.length > 0) {
+      const given = give(random.pick(recipients), missing);
+      if (given === 0) break;
+      missing -= given;
+    }
+  } else {
+    const ranked = enrollments.map((_, i) => i).sort((a, b) => balances[b] - balances[a]);
+    const target = studentTargetAbove(balances[ranked[studentsAboveTarget!]] ?? 0);
+    for (const i of ranked.slice(0, studentsAboveTarget!)) {
+      while (balances[i] <= target) {
+        const given = give(i, Infinity);
+        if (given === 0) break;
+        balances[i] += given;
+      }
+    }
+  }
+
+  return awards;
+}
+
+/** The smallest round student target above a balance, at least the default */
+function studentTargetAbove(balance: number): number {
+  const target = (Math.floor(balance / STUDENT_TARGET_STEP) + 1) * STUDENT_TARGET_STEP;
+  return Math.max(DEFAULT_REWARD_GOALS.studentPointsTarget, target);
+}
+
+function roundUp(value: number, step: number): number {
+  return Math.ceil(value / step) * step;
+}
+
+// =============================================================================
+// ATTENDANCE
+// =============================================================================
+
+type AttendanceSource = (typeof ATTENDANCE_SOURCES)[keyof typeof ATTENDANCE_SOURCES];
+
+// How a present-but-idle day gets marked (no question answered, so usually no
+// auto-mark): by the teacher, else by the roster import, else an auto-mark
+// from a question only viewed
+const IDLE_TEACHER_CHANCE = 0.5;
+const IDLE_ROSTER_IMPORT_CHANCE = 0.6;
+
+// Chance the evening roster import re-sends a day that is already marked
+const ROSTER_DUPLICATE_CHANCE = 0.3;
+
+// Chance an absent day has a stray auto-mark (a question viewed from outside
+// class) that the teacher corrects to absent a step into the class period
+const CORRECTION_CHANCE = 0.15;
+
+// Hours after 10:00 school time for the evening roster import
+const ROSTER_IMPORT_HOUR = 8;
+
+/**
+ * Plan attendance marks for every school day in the window, from the
+ * attendance schedule (plan progress first, so activity days are known):
+ * - Days with activity get the question-viewed auto-mark at the first activity
+ * - Present-but-idle days are marked at the start of the class period by the
+ *   teacher, the roster import, or an auto-mark
+ * - The evening roster import re-sends some already marked days, so the same
+ *   date arrives from two sources
+ * - Some absent days get a stray auto-mark that the teacher later corrects
+ *   with STUDENT_MARKED_ABSENT
+ * Students whose current lesson has activity today are always present today,
+ * when today is a school day and its class period has started.
+ * Marks that would land after "now" are left out.
+ */
+export function planAttendanceEvents(
+  enrollments: Enrollment[],
+  teacherProfileId: string,
+  options: PlanOptions
+): AttendanceRecord[] {
+  const { clock, random } = options;
+  const now = clock.now().toISOString();
+  const records: AttendanceRecord[] = [];
+
+  for (const enrollment of enrollments) {
+    if (options.calendar.isSchoolDay(0) && options.schedule.latestDay === 0 && worksToday(enrollment.persona)) {
+      options.attendance.markActive(enrollment, options.schedule.at(0));
+    }
+
+    const mark = (
+      type: AttendanceRecord["type"],
+      date: string,
+      timestamp: string,
+      source: AttendanceSource
+    ): void => {
+      if (timestamp > now) return;
+      records.push({
+        ...base(enrollment, options, timestamp),
+        type,
+        date,
+        ...source,
+        markedBy: source.source === "teacher" ? teacherProfileId : null,
+      });
+    };
+
+    for (const day of options.attendance.days(enrollment)) {
+      const rosterImportAt = getTimestampDaysAgo(clock, day.dayOffset, ROSTER_IMPORT_HOUR);
+      const [classStart, correctionAt] = options.schedule.steps(day.dayOffset, 0, 2);
+
+      switch (day.status) {
+        case "active":
+        case "idle": {
+          const source = day.status === "active" ? ATTENDANCE_SOURCES.autoMark : idleDaySource(random);
+          mark("STUDENT_MARKED_PRESENT", day.date, day.firstActivity ?? classStart, source);
+          if (source !== ATTENDANCE_SOURCES.rosterImport && random.chance(ROSTER_DUPLICATE_CHANCE)) {
+            mark("STUDENT_MARKED_PRESENT", day.date, rosterImportAt, ATTENDANCE_SOURCES.rosterImport);
+          }
+          break;
+        }
+        case "absent":
+          if (random.chance(CORRECTION_CHANCE)) {
+            mark("STUDENT_MARKED_PRESENT", day.date, classStart, ATTENDANCE_SOURCES.autoMark);
+            mark("STUDENT_MARKED_ABSENT", day.date, correctionAt, ATTENDANCE_SOURCES.correction);
+          }
+          break;
+      }
+    }
+  }
+
+  return records;
+}
+
+function idleDaySource(random: Random): AttendanceSource {
+  if (random.chance(IDLE_TEACHER_CHANCE)) return ATTENDANCE_SOURCES.teacher;
+  if (random.chance(IDLE_ROSTER_IMPORT_CHANCE)) return ATTENDANCE_SOURCES.rosterImport;
+  return ATTENDANCE_SOURCES.autoMark;
+}
@@ -0,0 +1,127 @@
+/**
+ * Event Record Writer
+ *
+ * Persists records produced by seed/eventPlanner.ts through a SeedWriter,
+ * mapping each record to the event payload (or response row) the app emits.
+ */
+
+import { LESSON_CORRECT_ANSWER } from "./config";
+import { SeedRecord } from "./eventPlanner";
+import { NewEvent, SeedWriter } from "./writer";
+
+/**
+ * Write planned records in order.
+ */
+export async function writeSeedRecords(writer: SeedWriter, records: SeedRecord[]): Promise<void> {
+  for (const record of records) {
+    if (record.type === "MASTERY_CHECK_RESPONSE") {
+      await writer.insertResponse({
+        enrollmentId: record.enrollmentId,
+        questionId: record.questionId,
+        isCorrect: record.isCorrect,
+        content: {
+          type: "multiple_choice",
+          selectedChoiceIds: [record.selectedChoiceId],
+        },
+        timestamp: record.timestamp,
+        assignmentQuestionId: record.assignmentQuestionId,
+        assignedAssignmentId: record.assignedAssignmentId,
+      });
+    } else {
+      await writer.insertEvent(toEvent(record));
+    }
+  }
+}
+
+/**
+ * Build the events row for a record, matching the payloads the app writes.
+ */
+export function toEvent(record: Exclude<SeedRecord, { type: "MASTERY_CHECK_RESPONSE" }>): NewEvent {
+  const { type, timestamp } = record;
+
+  switch (record.type) {
+    case "LESSON_QUESTION_SHOWN":
+      return {
+        type,
+        data: {
+          enrollmentId: record.enrollmentId,
+          studentProfileId: record.studentProfileId,
+          assignmentId: record.assignmentId,
+          groupId: record.groupId,
+          questionId: record.questionId,
+          knowledgeComponentId: record.knowledgeComponentId,
+          action: "next",
+        },
+        timestamp,
+      };
+
+    case "QUESTION_ANSWERED":
+      return {
+        type,
+        data: {
+          questionAttemptId: record.questionAttemptId,
+          questionId: record.questionId,
+          studentProfileId: record.studentProfileId,
+          groupId: record.groupId,
+          responseId: 0,
+          isCorrect: record.isCorrect,
+          answer: [record.answer],
+          answerText: [record.answer],
+          questionText: `Q${record.questionIndex + 1}`,
+          correctAnswers: [LESSON_CORRECT_ANSWER],
+          timestamp,
+          enrollmentId: record.enrollmentId,
+          assignmentId: record.assignmentId,
+          assignmentQuestionId: record.assignmentQuestionId,
+          mode: "lesson",
+        },
+        timestamp,
+      };
+
+    case "LESSON_COMPLETED":
+    case "ASSIGNMENT_COMPLETED":
+      return {
+        type,
+        data: {
+          enrollmentId: record.enrollmentId,
+          assignedAssignmentId: record.assignedAssignmentId,
+          assignmentId: record.assignmentId,
+          studentProfileId: record.studentProfileId,
+          groupId: record.groupId,
+          timestamp,
+        },
+        timestamp,
+      };
+
+    case "POINTS_UPDATED":
+      return {
+        type,
+        data: {
+          studentProfileId: record.studentProfileId,
+          enrollmentId: record.enrollmentId,
+          amount: record.amount,
+          description: record.description,
+          ...(record.assignmentId !== null && { assignmentId: record.assignmentId }),
+          ...(record.teacherProfileId !== null && { teacherProfileId: record.teacherProfileId }),
+          ...(record.dedupeKey !== null && { dedupeKey: record.dedupeKey }),
+        },
+        timestamp,
+      };
+
+    case "STUDENT_MARKED_PRESENT":
+    case "STUDENT_MARKED_ABSENT":
+      return {
+        type,
+        data: {
+          groupId: record.groupId,
+          enrollmentId: record.enrollmentId,
+          studentProfileId: record.studentProfileId,
+          date: record.date,
+          source: record.source,
+          sourceDetail: record.sourceDetail,
+          ...(record.markedBy !== null && { markedBy: record.markedBy }),
+        },
+        timestamp,
+      };
+  }
+}
@@ -0,0 +1,501 @@
+/**
+ * Sandbox Fixtures
+ *
+ * Exports the rows a group's recorded seed runs created (seed/manifest.ts) to
+ * a portable, versioned JSON file, and imports such a file into another local
+ * database, so a team can share the exact sandbox a bug reproduces in.
+ *
+ * Import replays the fixture through the normal SeedWriter, phase by phase in
+ * pipeline order, so it is batched, runs in one transaction, and is recorded
+ * as a run that `cleanup --run` or a later reseed removes. Every serial ID is
+ * new in the target database: foreign keys, and the IDs inside event `data`,
+ * are rewritten through the ID maps built while inserting. Students get new
+ * user IDs and email timestamps; groups, modules, and the teacher are mapped
+ * onto the ones given to the import (by position, like --groups/--modules).
+ *
+ * Timestamps are kept as exported. Pacing configs live outside the database
+ * and are not part of a fixture; run `--only pacing` after importing.
+ */
+
+import fs from "fs";
+import { sql, SQL } from "drizzle-orm";
+import { randomUUID } from "crypto";
+import { SEED_PHASES, SeedPhase, Teacher, Group } from "./config";
+import { SeedContext } from "./context";
+import { RunManifest, ManifestRows, RowId } from "./manifest";
+import { enterPhase } from "./phases";
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+export const FIXTURE_FORMAT = "seed-sandbox-fixture";
+export const FIXTURE_VERSION = 1;
+
+export interface FixtureStudent {
+  enrollmentId: number;
+  userId: string;
+  groupId: number;
+  email: string;
+  firstName: string | null;
+  lastName: string | null;
+  displayName: string;
+}
+
+export interface FixtureAssignment {
+  id: number;
+  title: string;
+  description: string;
+  config: { mode: string; [key: string]: unknown };
+  /** assignment_modules links */
+  modules: { moduleId: number; order: number }[];
+  /** assignment_prerequisites (podsie_assignment) */
+  prerequisiteIds: number[];
+}
+
+export interface FixtureRows {
+  assignments: FixtureAssignment[];
+  assignedAssignments: { id: number; assignmentId: number; groupId: number; launchDate: string; dueDate: string }[];
+  questions: { id: number; content: Record<string, unknown> }[];
+  knowledgeComponents: { id: number; name: string; originalQuestionId: number }[];
+  assignmentQuestions: { id: number; assignmentId: number; questionId: number; order: number }[];
+  responses: {
+    enrollmentId: number;
+    questionId: number;
+    isCorrect: boolean;
+    content: Record<string, unknown>;
+    createdAt: string;
+    assignmentQuestionId: number;
+    assignedAssignmentId: number;
+  }[];
+  events: { type: string; data: Record<string, unknown>; createdAt: string }[];
+}
+
+export interface SandboxFixture {
+  format: typeof FIXTURE_FORMAT;
+  version: number;
+  exportedAt: string;
+  source: {
+    runIds: string[];
+    groupIds: number[];
+    moduleIds: number[];
+    teacherId: string | null;
+  };
+  /** Every student the exported rows refer to */
+  students: FixtureStudent[];
+  /** Everything else, by the phase that created it */
+  phases: Partial<Record<SeedPhase, FixtureRows>>;
+}
+
+/** Source-to-target ID maps built while importing */
+interface IdMaps {
+  groups: Map<number, number>;
+  modules: Map<number, number>;
+  students: Map<string, string>;
+  enrollments: Map<number, number>;
+  assignments: Map<number, number>;
+  assignedAssignments: Map<number, number>;
+  questions: Map<number, number>;
+  knowledgeComponents: Map<number, number>;
+  assignmentQuestions: Map<number, number>;
+  /** Student emails, which Zearn dedupe keys embed */
+  emails: Map<string, string>;
+}
+
+/** Keys in event `data` that hold row IDs, and the map each is rewritten through */
+const EVENT_ID_FIELDS: Record<string, keyof IdMaps> = {
+  groupId: "groups",
+  enrollmentId: "enrollments",
+  studentProfileId: "students",
+  assignmentId: "assignments",
+  assignedAssignmentId: "assignedAssignments",
+  questionId: "questions",
+  assignmentQuestionId: "assignmentQuestions",
+  knowledgeComponentId: "knowledgeComponents",
+};
+
+/** Keys in event `data` that hold the teacher's profile ID (null for automatic awards and SIS marks) */
+const EVENT_TEACHER_FIELDS = ["teacherProfileId", "markedBy"];
+
+// Postgres allows 65535 bind parameters per statement
+const SELECT_CHUNK_SIZE = 5000;
+
+// =============================================================================
+// EXPORT
+// =============================================================================
+
+/**
+ * Read every row the given runs recorded, plus the students those rows refer
+ * to, into a fixture. Runs are merged phase by phase.
+ */
+export async function exportFixture(ctx: SeedContext, runs: RunManifest[]): Promise<SandboxFixture> {
+  const fixture: SandboxFixture = {
+    format: FIXTURE_FORMAT,
+    version: FIXTURE_VERSION,
+    exportedAt: new Date().toISOString(),
+    source: {
+      runIds: runs.map((run) => run.runId),
+      groupIds: [...new Set(runs.flatMap((run) => run.groupIds))],
+      moduleIds: [],
+      teacherId: null,
+    },
+    students: [],
+    phases: {},
+  };
+
+  const enrollmentIds = new Set<number>();
+  for (const phase of SEED_PHASES) {
+    const rows: ManifestRows = {};
+    for (const run of runs) {
+      for (const [table, ids] of Object.entries(run.rows[phase] ?? {})) {
+        (rows[table as keyof ManifestRows] ??= []).push(...(ids ?? []));
+      }
+    }
+    for (const id of rows.enrollments ?? []) enrollmentIds.add(Number(id));
+
+    const phaseRows = await readPhaseRows(ctx, rows);
+    for (const r of phaseRows.responses) enrollmentIds.add(r.enrollmentId);
+    for (const e of phaseRows.events) {
+      if (e.data.enrollmentId !== undefined) enrollmentIds.add(Number(e.data.enrollmentId));
+    }
+
+    const count = Object.values(phaseRows).reduce((sum, list) => sum + list.length, 0);
+    if (count > 0) {
+      fixture.phases[phase] = phaseRows;
+      console.log(`   ${phase}: ${count} rows`);
+    }
+  }
+
+  // Modules in the order lessons were linked to them (the runs' --modules order)
+  fixture.source.moduleIds = [
+    ...new Set(
+      Object.values(fixture.phases).flatMap((rows) => rows?.assignments.flatMap((a) => a.modules.map((m) => m.moduleId)) ?? [])
+    ),
+  ];
+
+  fixture.students = await readStudents(ctx, [...enrollmentIds]);
+  console.log(`   students: ${fixture.students.length}`);
+
+  const firstAssignment = Object.values(fixture.phases).flatMap((rows) => rows?.assignments ?? [])[0];
+  if (firstAssignment) {
+    const result = await ctx.db.execute(sql`SELECT created_by FROM assignments WHERE id = ${firstAssignment.id}`);
+    fixture.source.teacherId = (result[0] as { created_by: string } | undefined)?.created_by ?? null;
+  }
+
+  return fixture;
+}
+
+/**
+ * Rows of one phase, by table, with their link-table rows folded in.
+ */
+async function readPhaseRows(ctx: SeedContext, rows: ManifestRows): Promise<FixtureRows> {
+  const assignments = await selectByIds(ctx, rows.assignments, (ids) =>
+    sql`SELECT a.id, a.title, a.description, a.config,
+               COALESCE((SELECT json_agg(json_build_object('moduleId', am.module_id, 'order', am."order"))
+                         FROM assignment_modules am WHERE am.assignment_id = a.id), '[]') AS modules,
+               COALESCE((SELECT json_agg(ap.prereq_assignment_id)
+                         FROM assignment_prerequisites ap WHERE ap.assignment_id = a.id), '[]') AS prerequisite_ids
+        FROM assignments a WHERE a.id IN ${ids} ORDER BY a.id`
+  ) as { id: number; title: string; description: string; config: FixtureAssignment["config"]; modules: FixtureAssignment["modules"]; prerequisite_ids: number[] }[];
+
+  const assignedAssignments = await selectByIds(ctx, rows.assigned_assignments, (ids) =>
+    sql`SELECT id, assignment_id, group_id, launch_date, due_date
+        FROM assigned_assignments WHERE id IN ${ids} ORDER BY id`
+  ) as { id: number; assignment_id: number; group_id: number; launch_date: string | Date; due_date: string | Date }[];
+
+  const questions = await selectByIds(ctx, rows.questions, (ids) =>
+    sql`SELECT id, question_content FROM questions WHERE id IN ${ids} ORDER BY id`
+  ) as { id: number; question_content: Record<string, unknown> }[];
+
+  const knowledgeComponents = await selectByIds(ctx, rows.knowledge_components, (ids) =>
+    sql`SELECT id, name, original_question_id FROM knowledge_components WHERE id IN ${ids} ORDER BY id`
+  ) as { id: number; name: string; original_question_id: number }[];
+
+  const assignmentQuestions = await selectByIds(ctx, rows.assignment_questions, (ids) =>
+    sql`SELECT id, assignment_id, question_id, "order" FROM assignment_questions WHERE id IN ${ids} ORDER BY id`
+  ) as { id: number; assignment_id: number; question_id: number; order: number }[];
+
+  const responses = await selectByIds(ctx, rows.responses, (ids) =>
+    sql`SELECT r.id, r.enrollment_id, r.question_id, r.is_correct, r.response_content, r.created_at,
+               aqr.assignment_question_id, aqr.assigned_assignment_id
+        FROM responses r
+        JOIN assignment_question_responses aqr ON aqr.response_id = r.id
+        WHERE r.id IN ${ids} ORDER BY r.id`
+  ) as { enrollment_id: number; question_id: number; is_correct: boolean; response_content: Record<string, unknown>; created_at: string | Date; assignment_question_id: number; assigned_assignment_id: number }[];
+
+  const events = await selectByIds(ctx, rows.events, (ids) =>
+    sql`SELECT type, data, created_at FROM events WHERE id IN ${ids} ORDER BY created_at, id`
+  ) as { type: string; data: Record<string, unknown>; created_at: string | Date }[];
+
+  return {
+    assignments: assignments.map((a) => ({
+      id: a.id,
+      title: a.title,
+      description: a.description,
+      config: a.config,
+      modules: a.modules,
+      prerequisiteIds: a.prerequisite_ids,
+    })),
+    assignedAssignments: assignedAssignments.map((aa) => ({
+      id: aa.id,
+      assignmentId: aa.assignment_id,
+      groupId: aa.group_id,
+      launchDate: new Date(aa.launch_date).toISOString(),
+      dueDate: new Date(aa.due_date).toISOString(),
+    })),
+    questions: questions.map((q) => ({ id: q.id, content: q.question_content })),
+    knowledgeComponents: knowledgeComponents.map((kc) => ({
+      id: kc.id,
+      name: kc.name,
+      originalQuestionId: kc.original_question_id,
+    })),
+    assignmentQuestions: assignmentQuestions.map((aq) => ({
+      id: aq.id,
+      assignmentId: aq.assignment_id,
+      questionId: aq.question_id,
+      order: aq.order,
+    })),
+    responses: responses.map((r) => ({
+      enrollmentId: r.enrollment_id,
+      questionId: r.question_id,
+      isCorrect: r.is_correct,
+      content: r.response_content,
+      createdAt: new Date(r.created_at).toISOString(),
+      assignmentQuestionId: r.assignment_question_id,
+      assignedAssignmentId: r.assigned_assignment_id,
+    })),
+    events: events.map((e) => ({ type: e.type, data: e.data, createdAt: new Date(e.created_at).toISOString() })),
+  };
+}
+
+async function readStudents(ctx: SeedContext, enrollmentIds: number[]): Promise<FixtureStudent[]> {
+  const rows = await selectByIds(ctx, enrollmentIds, (ids) =>
+    sql`SELECT e.id, e.student_profile_id, e.group_id, sp.email, sp.first_name, sp.last_name
+        FROM enrollments e
+        JOIN student_profiles sp ON sp.id = e.student_profile_id
+        WHERE e.id IN ${ids} ORDER BY e.id`
+  ) as { id: number; student_profile_id: string; group_id: number; email: string; first_name: string | null; last_name: string | null }[];
+
+  return rows.map((row) => ({
+    enrollmentId: row.id,
+    userId: row.student_profile_id,
+    groupId: row.group_id,
+    email: row.email,
+    firstName: row.first_name,
+    lastName: row.last_name,
+    displayName: row.first_name !== null && row.last_name !== null ? `${row.first_name} ${row.last_name}` : row.email,
+  }));
+}
+
+/**
+ * Run a SELECT over a list of IDs in chunks; query gets the "(id, id, ...)" list.
+ */
+async function selectByIds(
+  ctx: SeedContext,
+  ids: RowId[] | undefined,
+  query: (idList: SQL) => SQL
+): Promise<unknown[]> {
+  const results: unknown[] = [];
+  const list = ids ?? [];
+  for (let i = 0; i < list.length; i += SELECT_CHUNK_SIZE) {
+    const chunk = list.slice(i, i + SELECT_CHUNK_SIZE);
+    results.push(...(await ctx.db.execute(query(sql`(${sql.join(chunk.map((id) => sql`${id}`), sql`, `)})`))));
+  }
+  return results;
+}
+
+// =============================================================================
+// IMPORT
+// =============================================================================
+
+/**
+ * Insert a fixture's rows through ctx.writer with new IDs. Source groups and
+ * modules map by position onto groups/moduleIds; every row belongs to the
+ * given teacher. Call inside runInTransaction.
+ */
+export async function importFixture(
+  ctx: SeedContext,
+  fixture: SandboxFixture,
+  groups: Group[],
+  moduleIds: number[],
+  teacher: Teacher
+): Promise<void> {
+  if (groups.length !== fixture.source.groupIds.length || moduleIds.length !== fixture.source.moduleIds.length) {
+    throw new Error(
+      `Fixture has groups ${fixture.source.groupIds.join(",")} and modules ${fixture.source.moduleIds.join(",")}; ` +
+        `pass as many --groups and --modules to import it`
+    );
+  }
+
+  const maps: IdMaps = {
+    groups: new Map(fixture.source.groupIds.map((id, i) => [id, groups[i].id])),
+    modules: new Map(fixture.source.moduleIds.map((id, i) => [id, moduleIds[i]])),
+    students: new Map(),
+    enrollments: new Map(),
+    assignments: new Map(),
+    assignedAssignments: new Map(),
+    questions: new Map(),
+    knowledgeComponents: new Map(),
+    assignmentQuestions: new Map(),
+    emails: new Map(),
+  };
+
+  await enterPhase(ctx, "students");
+  console.log(`\nImporting ${fixture.students.length} students...`);
+  const stamp = Date.now();
+  for (const student of fixture.students) {
+    const userId = randomUUID();
+    // Seeded emails embed a creation timestamp; a fresh one keeps them unique
+    const email = student.email.replace(/\.\d{13}\./, `.${stamp}.`);
+    const enrollmentId = await ctx.writer.insertStudent({
+      userId,
+      email,
+      firstName: student.firstName,
+      lastName: student.lastName,
+      displayName: student.displayName,
+      groupId: mapId(maps.groups, student.groupId, "group"),
+    });
+    if (enrollmentId === null) {
+      throw new Error(`Could not enroll imported student ${student.email}`);
+    }
+    maps.students.set(student.userId, userId);
+    maps.enrollments.set(student.enrollmentId, enrollmentId);
+    maps.emails.set(student.email, email);
+  }
+
+  for (const phase of SEED_PHASES) {
+    const rows = fixture.phases[phase];
+    if (!rows) continue;
+
+    await enterPhase(ctx, phase);
+    console.log(`\nImporting ${phase}...`);
+    await importPhaseRows(ctx, rows, maps, teacher);
+  }
+}
+
+async function importPhaseRows(ctx: SeedContext, rows: FixtureRows, maps: IdMaps, teacher: Teacher): Promise<void> {
+  for (const a of rows.assignments) {
+    maps.assignments.set(a.id, await ctx.writer.insertAssignment({
+      title: a.title,
+      description: a.description,
+      createdBy: teacher.id,
+      config: a.config,
+    }));
+  }
+  for (const a of rows.assignments) {
+    const assignmentId = maps.assignments.get(a.id)!;
+    for (const link of a.modules) {
+      await ctx.writer.linkAssignmentToModule(assignmentId, mapId(maps.modules, link.moduleId, "module"), link.order);
+    }
+    for (const prereqId of a.prerequisiteIds) {
+      await ctx.writer.insertPrerequisite(assignmentId, mapId(maps.assignments, prereqId, "prerequisite assignment"));
+    }
+  }
+  if (rows.assignments.length > 0) console.log(`   + ${rows.assignments.length} assignments`);
+
+  for (const aa of rows.assignedAssignments) {
+    maps.assignedAssignments.set(aa.id, await ctx.writer.assignToGroup({
+      assignmentId: mapId(maps.assignments, aa.assignmentId, "assignment"),
+      groupId: mapId(maps.groups, aa.groupId, "group"),
+      launchDate: aa.launchDate,
+      dueDate: aa.dueDate,
+    }));
+  }
+
+  for (const q of rows.questions) {
+    maps.questions.set(q.id, await ctx.writer.insertQuestion(q.content, teacher.id));
+  }
+  for (const kc of rows.knowledgeComponents) {
+    maps.knowledgeComponents.set(
+      kc.id,
+      await ctx.writer.insertKnowledgeComponent(kc.name, mapId(maps.questions, kc.originalQuestionId, "question"))
+    );
+  }
+  for (const aq of rows.assignmentQuestions) {
+    maps.assignmentQuestions.set(aq.id, await ctx.writer.insertAssignmentQuestion(
+      mapId(maps.assignments, aq.assignmentId, "assignment"),
+      mapId(maps.questions, aq.questionId, "question"),
+      aq.order
+    ));
+  }
+  if (rows.questions.length > 0) console.log(`   + ${rows.questions.length} questions`);
+
+  for (const r of rows.responses) {
+    await ctx.writer.insertResponse({
+      enrollmentId: mapId(maps.enrollments, r.enrollmentId, "enrollment"),
+      questionId: mapId(maps.questions, r.questionId, "question"),
+      isCorrect: r.isCorrect,
+      content: r.content,
+      timestamp: r.createdAt,
+      assignmentQuestionId: mapId(maps.assignmentQuestions, r.assignmentQuestionId, "assignment question"),
+      assignedAssignmentId: mapId(maps.assignedAssignments, r.assignedAssignmentId, "assigned assignment"),
+    });
+  }
+  if (rows.responses.length > 0) console.log(`   + ${rows.responses.length} responses`);
+
+  for (const e of rows.events) {
+    await ctx.writer.insertEvent({ type: e.type, data: remapEventData(e.data, maps, teacher), timestamp: e.createdAt });
+  }
+  if (rows.events.length > 0) console.log(`   + ${rows.events.length} events`);
+}
+
+/**
+ * Rewrite the row IDs inside an event payload. IDs the fixture doesn't
+ * contain (rows that weren't seeded) are kept as they are; numbers stay
+ * numbers and strings stay strings. Teacher awards and marks name the
+ * importing teacher. Dedupe keys
+ * (TL_CONNECT_ZEARN:{email}:{lesson}:{date}) get the imported student's email.
+ */
+function remapEventData(data: Record<string, unknown>, maps: IdMaps, teacher: Teacher): Record<string, unknown> {
+  const remapped: Record<string, unknown> = { ...data };
+  for (const [key, mapName] of Object.entries(EVENT_ID_FIELDS)) {
+    const value = data[key];
+    if (value === undefined || value === null) continue;
+
+    const map = maps[mapName] as Map<number | string, number | string>;
+    const sourceId = mapName === "students" ? String(value) : Number(value);
+    const targetId = map.get(sourceId);
+    if (targetId === undefined) continue;
+    remapped[key] = typeof value === "string" ? String(targetId) : targetId;
+  }
+  for (const key of EVENT_TEACHER_FIELDS) {
+    if (typeof data[key] === "string") remapped[key] = teacher.id;
+  }
+  if (typeof data.dedupeKey === "string") {
+    const parts = data.dedupeKey.split(":");
+    const email = parts.length > 1 ? maps.emails.get(parts[1]) : undefined;
+    if (email !== undefined) remapped.dedupeKey = [parts[0], email, ...parts.slice(2)].join(":");
+  }
+  return remapped;
+}
+
+function mapId<K, V>(map: Map<K, V>, sourceId: K, what: string): V {
+  const targetId = map.get(sourceId);
+  if (targetId === undefined) {
+    throw new Error(`Fixture refers to ${what} ${String(sourceId)}, which it doesn't contain`);
+  }
+  return targetId;
+}
+
+// =============================================================================
+// FILES
+// =============================================================================
+
+export function saveFixture(fixture: SandboxFixture, file: string): void {
+  fs.writeFileSync(file, JSON.stringify(fixture, null, 2) + "\n");
+}
+
+/**
+ * Read and check a fixture file. Throws if it isn't a fixture or was written
+ * by a newer version of this skill.
+ */
+export function loadFixture(file: string): SandboxFixture {
+  const fixture = JSON.parse(fs.readFileSync(file, "utf8")) as SandboxFixture;
+  if (fixture.format !== FIXTURE_FORMAT) {
+    throw new Error(`${file} is not a sandbox fixture`);
+  }
+  if (fixture.version > FIXTURE_VERSION) {
+    throw new Error(`${file} is fixture version ${fixture.version}; this skill reads up to version ${FIXTURE_VERSION}`);
+  }
+  return fixture;
+}
@@ -6,7 +6,21 @@
 
 // Configuration and types
 export {
-  CONFIG,
+  DEFAULT_CONFIG,
+  createSeedConfig,
+  type SeedConfig,
+  type Database,
+  type PlanFormat,
+  SEED_PHASES,
+  type SeedPhase,
+  DEFAULT_SUCCESS_ASSESSMENT_TITLE,
+  DEFAULT_REWARD_GOALS,
+  REWARD_SCENARIOS,
+  REWARD_SCENARIO_KEYS,
+  type RewardGoals,
+  type RewardScenario,
+  DEFAULT_CLASS_PERIOD,
+  type ClassPeriod,
   ALWAYS_COMPLETE_INDICES,
   ZERO_START_INDICES,
   type Teacher,
@@ -18,18 +32,113 @@ export {
   type Assessment,
 } from "./config";
 
+// Knowledge tracing
+export { createKnowledgeTracker, type KnowledgeParams, type KnowledgeTracker } from "./knowledge";
+
+// Attendance schedule
+export { createAttendanceSchedule, type AttendanceSchedule, type AttendanceDay } from "./attendance";
+
+// School calendar
+export {
+  createSchoolCalendar,
+  loadCalendar,
+  assertSchoolDaysInWindow,
+  WEEKDAY_CALENDAR,
+  type CalendarDefinition,
+  type CalendarDay,
+  type CalendarDayKind,
+  type SchoolCalendar,
+} from "./calendar";
+
+// Class periods and school timezone
+export { classScheduleFor, createClassSchedule, createClassTimeline, type ClassSchedule, type ClassTimeline } from "./schedule";
+export { isValidTimezone, dateInTimezone, instantInTimezone } from "./timezone";
+
+// Student personas
+export {
+  PERSONAS,
+  PERSONA_KEYS,
+  personaForPosition,
+  worksToday,
+  type PersonaKey,
+  type StudentPersona,
+  type CurrentLessonState,
+} from "./personas";
+
+// Run context and seeded randomness
+export { createSeedContext, runInTransaction, type SeedContext } from "./context";
+export { createRandom, type Random } from "./random";
+export { createClock, type Clock } from "./clock";
+
+// Writers and dry-run planning
+export { createDatabaseWriter, type SeedWriter } from "./writer";
+export {
+  createPlanRecorder,
+  placeholderTeacher,
+  placeholderGroups,
+  formatPlanText,
+  type PlanRecorder,
+  type SeedPlan,
+} from "./plan";
+
+// Pipeline phases
+export {
+  selectPhases,
+  resolvePhases,
+  enterPhase,
+  scratchContext,
+  type PhasePlan,
+} from "./phases";
+
+// Local database safety guard
+export {
+  assertLocalDatabase,
+  confirmDestructive,
+  parseDatabaseUrl,
+  checkDatabaseTarget,
+  DEFAULT_ALLOWED_HOSTS,
+  DEFAULT_ALLOWED_PORTS,
+  type DatabaseTarget,
+} from "./safety";
+
+// Command-line interface
+export { parseCliArgs, USAGE, type CliOptions, type Command } from "./cli";
+
 // Verification
 export { verifyTeacher, verifyGroups, verifyOrCreateModules } from "./verify";
 
-// Cleanup
-export { cleanupSandboxData } from "./cleanup";
-export { cleanupPacingData, createPacingConfigs } from "./pacing";
+// Cleanup and run manifests
+export {
+  cleanupRun,
+  cleanupRunsForGroups,
+  cleanupLegacySeedData,
+  findRunsForGroups,
+  findRunsToReplace,
+  type ReplacedRuns,
+} from "./cleanup";
+export {
+  listManifests,
+  loadManifest,
+  saveManifest,
+  deleteManifest,
+  countRows,
+  mergeRows,
+  getRunsDir,
+  type RunManifest,
+  type ManifestPhase,
+} from "./manifest";
+export { cleanupPacingData, createPacingConfigs, type PacingPayload } from "./pacing";
 
 // Students
-export { seedStudentsForGroup } from "./students";
+export { seedStudentsForGroup, loadStudentsForGroup } from "./students";
 
 // Lessons
-export { createAllLessonsForModule, createLessonsWithMasteryChecks } from "./lessons";
+export {
+  createAllLessonsForModule,
+  createLessonsWithMasteryChecks,
+  loadLessonsForModule,
+  moduleKcIds,
+} from "./lessons";
 
 // Events
 export {
@@ -37,8 +146,45 @@ export {
   seedStandaloneLessonEvents,
   seedDetailedProgressForFirstLesson,
   seedPointsEvents,
+  loadRewardGoals,
   seedAttendanceEvents,
+  loadGroupAttendance,
 } from "./events";
+export {
+  planProgressEvents,
+  planDetailedProgress,
+  planStandaloneLessonEvents,
+  planPointsEvents,
+  planAttendanceEvents,
+  planAdvanceDay,
+  pointsRulesFor,
+  pointsBalances,
+  rewardGoalsFor,
+  type PlanOptions,
+  type PointsRules,
+  type MasteryCheckCompletion,
+  type AssignmentCompletedRecord,
+  type StudentProgress,
+  type SeedRecord,
+  type ProgressPlan,
+} from "./eventPlanner";
+export { writeSeedRecords } from "./eventWriter";
+export { advanceGroupOneDay } from "./advance";
+export {
+  exportFixture,
+  importFixture,
+  saveFixture,
+  loadFixture,
+  FIXTURE_VERSION,
+  type SandboxFixture,
+} from "./fixtures";
+export {
+  checkGroupInvariants,
+  reportViolations,
+  INVARIANT_CHECKS,
+  type InvariantCheck,
+  type Violation,
+} from "./invariants";
 
 // Assessments
 export {
@@ -46,6 +192,9 @@ export {
   assignAssessmentsToGroup,
   seedAssessmentResponses,
   updateExistingResponses,
+  createSuccessProfileAssessment,
+  seedSuccessProfileResponses,
+  seedSuccessProfileAssessments,
 } from "./assessments";
 
 // Canvas AI Feedback
@@ -0,0 +1,322 @@
+/**
+ * Post-Seed Invariants
+ *
+ * Read-only checks that seeded data keeps the seeder's own promises, run by
+ * `run.sh verify` after a seed or advance, and against the recorded plan at
+ * the end of a `--dry-run` seed (no database needed):
+ *
+ * - always-complete students completed every lesson and mastery check
+ * - zero-start students have no progress events or responses
+ * - every ASSIGNMENT_COMPLETED comes no earlier than its lesson's LESSON_COMPLETED
+ * - a lesson's questions are answered in order, before the lesson completes
+ * - every progress event falls on a school day (seed/calendar.ts)
+ * - every progress event falls within the group's class period (seed/schedule.ts)
+ * - students are marked present on every day they answered a question
+ *
+ * Students are matched to their personas by position, the same way seeding
+ * assigns them (active enrollments ordered by ID).
+ */
+
+import { sql } from "drizzle-orm";
+import {
+  Group,
+  Enrollment,
+  ModuleLessonData,
+  toSchoolDateString,
+  timeOfDayMinutes,
+} from "./config";
+import { SeedContext } from "./context";
+import { classScheduleFor } from "./schedule";
+import { instantInTimezone } from "./timezone";
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+export const INVARIANT_CHECKS = [
+  "always-complete",
+  "zero-start",
+  "mastery-after-lesson",
+  "question-order",
+  "school-days",
+  "class-period",
+  "present-when-active",
+] as const;
+
+export type InvariantCheck = (typeof INVARIANT_CHECKS)[number];
+
+export interface Violation {
+  check: InvariantCheck;
+  groupId: number;
+  enrollmentId: number;
+  assignmentId: number | null;
+  detail: string;
+}
+
+/** Event types that make up lesson progress (points and attendance are not progress) */
+const PROGRESS_EVENT_TYPES = ["LESSON_QUESTION_SHOWN", "QUESTION_ANSWERED", "LESSON_COMPLETED", "ASSIGNMENT_COMPLETED"];
+
+interface ProgressEvent {
+  type: string;
+  enrollmentId: number;
+  assignmentId: number;
+  questionId: number | null;
+  createdAt: Date;
+}
+
+// =============================================================================
+// CHECKS
+// =============================================================================
+
+/**
+ * Check every invariant for one group's students and lessons.
+ * Returns the violations found (empty when the group is consistent).
+ */
+export async function checkGroupInvariants(
+  ctx: SeedContext,
+  group: Group,
+  enrollments: Enrollment[],
+  moduleLessons: ModuleLessonData[]
+): Promise<Violation[]> {
+  const events = await loadProgressEvents(ctx, group.id);
+  const violation = (check: InvariantCheck, enrollmentId: number, assignmentId: number | null, detail: string): Violation => ({
+    check,
+    groupId: group.id,
+    enrollmentId,
+    assignmentId,
+    detail,
+  });
+  const violations: Violation[] = [];
+
+  const pairedLessons = moduleLessons.flatMap((m) => m.pairedLessons);
+  const allLessons = moduleLessons.flatMap((m) => [...m.standaloneLessons, ...m.pairedLessons]);
+
+  // Earliest completion per enrollment and assignment
+  const completedAt = new Map<string, Date>();
+  for (const event of events) {
+    if (event.type !== "LESSON_COMPLETED" && event.type !== "ASSIGNMENT_COMPLETED") continue;
+    const key = `${event.enrollmentId}:${event.type}:${event.assignmentId}`;
+    const earliest = completedAt.get(key);
+    if (!earliest || event.createdAt < earliest) completedAt.set(key, event.createdAt);
+  }
+
+  // Always-complete students completed everything
+  for (const enrollment of enrollments.filter((e) => e.persona.key === "always-complete")) {
+    for (const lesson of allLessons) {
+      if (!completedAt.has(`${enrollment.id}:LESSON_COMPLETED:${lesson.lessonId}`)) {
+        violations.push(violation("always-complete", enrollment.id, lesson.lessonId, `${enrollment.name} never completed ${lesson.lessonTitle}`));
+      }
+    }
+    for (const lesson of pairedLessons) {
+      if (!completedAt.has(`${enrollment.id}:ASSIGNMENT_COMPLETED:${lesson.masteryCheckId}`)) {
+        violations.push(violation("always-complete", enrollment.id, lesson.masteryCheckId, `${enrollment.name} never completed ${lesson.masteryCheckTitle}`));
+      }
+    }
+  }
+
+  // Zero-start students have nothing at all
+  for (const enrollment of enrollments.filter((e) => e.persona.key === "zero-start")) {
+    const counts = new Map<number, number>();
+    for (const event of events) {
+      if (event.enrollmentId === enrollment.id) {
+        counts.set(event.assignmentId, (counts.get(event.assignmentId) ?? 0) + 1);
+      }
+    }
+    for (const [assignmentId, count] of counts) {
+      violations.push(violation("zero-start", enrollment.id, assignmentId, `${enrollment.name} has ${count} progress event(s)`));
+    }
+    const responseCount = await countResponses(ctx, enrollment.id);
+    if (responseCount > 0) {
+      violations.push(violation("zero-start", enrollment.id, null, `${enrollment.name} has ${responseCount} response(s)`));
+    }
+  }
+
+  // Mastery checks complete no earlier than their lesson
+  const lessonByMasteryCheck = new Map(pairedLessons.map((l) => [l.masteryCheckId, l]));
+  for (const event of events) {
+    if (event.type !== "ASSIGNMENT_COMPLETED") continue;
+    const lesson = lessonByMasteryCheck.get(event.assignmentId);
+    if (!lesson) continue;
+    const lessonCompletedAt = completedAt.get(`${event.enrollmentId}:LESSON_COMPLETED:${lesson.lessonId}`);
+    if (!lessonCompletedAt) {
+      violations.push(violation("mastery-after-lesson", event.enrollmentId, event.assignmentId, `mastery check for ${lesson.lessonTitle} completed, lesson never completed`));
+    } else if (event.createdAt < lessonCompletedAt) {
+      violations.push(violation(
+        "mastery-after-lesson",
+        event.enrollmentId,
+        event.assignmentId,
+        `mastery check for ${lesson.lessonTitle} completed ${event.createdAt.toISOString()}, before the lesson (${lessonCompletedAt.toISOString()})`
+      ));
+    }
+  }
+
+  // Questions answered in lesson order, all before the lesson completes
+  for (const lesson of allLessons) {
+    const questionIndex = new Map(lesson.questions.map((q, index) => [q.id, index]));
+    const answersByEnrollment = new Map<number, ProgressEvent[]>();
+    for (const event of events) {
+      if (event.type !== "QUESTION_ANSWERED" || event.assignmentId !== lesson.lessonId) continue;
+      const answers = answersByEnrollment.get(event.enrollmentId) ?? [];
+      answers.push(event);
+      answersByEnrollment.set(event.enrollmentId, answers);
+    }
+
+    for (const [enrollmentId, answers] of answersByEnrollment) {
+      answers.sort((a, b) => (questionIndex.get(a.questionId!) ?? 0) - (questionIndex.get(b.questionId!) ?? 0));
+      for (let q = 1; q < answers.length; q++) {
+        if (answers[q].createdAt < answers[q - 1].createdAt) {
+          violations.push(violation(
+            "question-order",
+            enrollmentId,
+            lesson.lessonId,
+            `Q${(questionIndex.get(answers[q].questionId!) ?? 0) + 1} answered before Q${(questionIndex.get(answers[q - 1].questionId!) ?? 0) + 1} in ${lesson.lessonTitle}`
+          ));
+        }
+      }
+      const lessonCompletedAt = completedAt.get(`${enrollmentId}:LESSON_COMPLETED:${lesson.lessonId}`);
+      const lastAnswer = answers.reduce((latest, a) => (a.createdAt > latest ? a.createdAt : latest), answers[0].createdAt);
+      if (lessonCompletedAt && lessonCompletedAt < lastAnswer) {
+        violations.push(violation("question-order", enrollmentId, lesson.lessonId, `${lesson.lessonTitle} completed before its last question was answered`));
+      }
+    }
+  }
+
+  // School days only (in the school's timezone, like the planners)
+  for (const event of events) {
+    const day = ctx.calendar.onDate(toSchoolDateString(ctx.clock, event.createdAt));
+    if (day.kind !== "school" && day.kind !== "half-day") {
+      violations.push(violation(
+        "school-days",
+        event.enrollmentId,
+        event.assignmentId,
+        `${event.type} on ${day.date} (${day.name ?? day.kind})`
+      ));
+    }
+  }
+
+  // Inside the class period (in the school's timezone, like the planners)
+  const { period } = classScheduleFor(ctx.config, ctx.clock, group.id);
+  for (const event of events) {
+    const date = toSchoolDateString(ctx.clock, event.createdAt);
+    const start = instantInTimezone(date, timeOfDayMinutes(period.start), ctx.clock.timezone);
+    const end = instantInTimezone(date, timeOfDayMinutes(period.end), ctx.clock.timezone);
+    if (event.createdAt < start || event.createdAt > end) {
+      violations.push(violation(
+        "class-period",
+        event.enrollmentId,
+        event.assignmentId,
+        `${event.type} at ${event.createdAt.toISOString()}, outside ${period.name} ${period.start}-${period.end} on ${date}`
+      ));
+    }
+  }
+
+  // Attendance matches activity: present on every day with an answer
+  const presentDates = await loadPresentDates(ctx, group.id);
+  const reported = new Set<string>();
+  for (const event of events) {
+    if (event.type !== "QUESTION_ANSWERED") continue;
+    const date = toSchoolDateString(ctx.clock, event.createdAt);
+    const key = `${event.enrollmentId}:${date}`;
+    if (presentDates.has(key) || reported.has(key)) continue;
+    reported.add(key);
+    violations.push(violation("present-when-active", event.enrollmentId, event.assignmentId, `answered questions on ${date} without being marked present`));
+  }
+
+  return violations;
+}
+
+/**
+ * Every progress event for a group, oldest first. Dry runs read the plan's
+ * recorded events instead.
+ */
+async function loadProgressEvents(ctx: SeedContext, groupId: number): Promise<ProgressEvent[]> {
+  if (ctx.plan) {
+    return ctx.plan
+      .recorded()
+      .events.filter((event) => event.data.groupId === groupId && PROGRESS_EVENT_TYPES.includes(event.type))
+      .map((event) => ({
+        type: event.type,
+        enrollmentId: event.data.enrollmentId as number,
+        assignmentId: event.data.assignmentId as number,
+        questionId: (event.data.questionId as number | undefined) ?? null,
+        createdAt: new Date(event.timestamp),
+      }))
+      .sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime());
+  }
+
+  const rows = await ctx.db.execute(
+    sql`SELECT type,
+               (data->>'enrollmentId')::int AS enrollment_id,
+               (data->>'assignmentId')::int AS assignment_id,
+               (data->>'questionId')::int AS question_id,
+               created_at
+        FROM events
+        WHERE data->>'groupId' = ${String(groupId)}
+        AND type IN (${sql.join(PROGRESS_EVENT_TYPES.map((type) => sql`${type}`), sql`, `)})
+        ORDER BY created_at, id`
+  );
+
+  return (rows as { type: string; enrollment_id: number; assignment_id: number; question_id: number | null; created_at: string | Date }[]).map((row) => ({
+    type: row.type,
+    enrollmentId: row.enrollment_id,
+    assignmentId: row.assignment_id,
+    questionId: row.question_id,
+    createdAt: new Date(row.created_at),
+  }));
+}
+
+/**
+ * "enrollmentId:date" for every STUDENT_MARKED_PRESENT in a group.
+ */
+async function loadPresentDates(ctx: SeedContext, groupId: number): Promise<Set<string>> {
+  if (ctx.plan) {
+    return new Set(
+      ctx.plan
+        .recorded()
+        .events.filter((event) => event.data.groupId === groupId && event.type === "STUDENT_MARKED_PRESENT")
+        .map((event) => `${event.data.enrollmentId}:${event.data.date}`)
+    );
+  }
+
+  const rows = await ctx.db.execute(
+    sql`SELECT DISTINCT (data->>'enrollmentId')::int AS enrollment_id, data->>'date' AS date
+        FROM events
+        WHERE data->>'groupId' = ${String(groupId)}
+        AND type = 'STUDENT_MARKED_PRESENT'`
+  );
+  return new Set((rows as { enrollment_id: number; date: string }[]).map((row) => `${row.enrollment_id}:${row.date}`));
+}
+
+/**
+ * How many responses a student has (in the plan, for dry runs).
+ */
+async function countResponses(ctx: SeedContext, enrollmentId: number): Promise<number> {
+  if (ctx.plan) {
+    return ctx.plan.recorded().responses.filter((response) => response.enrollmentId === enrollmentId).length;
+  }
+  const rows = await ctx.db.execute(
+    sql`SELECT COUNT(*) AS count FROM responses WHERE enrollment_id = ${enrollmentId}`
+  );
+  return Number((rows[0] as { count: string | number }).count);
+}
+
+// =============================================================================
+// REPORTING
+// =============================================================================
+
+/**
+ * Print violations grouped by check, plus a pass/fail line per check.
+ */
+export function reportViolations(violations: Violation[]): void {
+  console.log("");
+  for (const check of INVARIANT_CHECKS) {
+    const found = violations.filter((v) => v.check === check);
+    console.log(`${found.length === 0 ? "PASS" : "FAIL"} ${check}${found.length === 0 ? "" : ` (${found.length} violation(s))`}`);
+    for (const v of found) {
+      console.log(
+        `   group ${v.groupId}  enrollment ${v.enrollmentId}  ` +
+          `assignment ${v.assignmentId ?? "-"}  ${v.detail}`
+      );
+    }
+  }
+}
@@ -0,0 +1,130 @@
+/**
+ * Knowledge Tracing
+ *
+ * A per-student, per-knowledge-component mastery model (Bayesian Knowledge
+ * Tracing) that every correctness decision is sampled from: lesson question
+ * attempts, mastery checks, assessments and Canvas responses. Each student
+ * has a hidden "knows this KC" state per KC, drawn from their persona's prior
+ * the first time they meet it:
+ *
+ * - a student who knows the KC answers correctly unless they slip
+ * - a student who doesn't can still guess right
+ * - after every answer a student who didn't know the KC may learn it
+ *
+ * Alongside the hidden state the tracker keeps the standard BKT estimate of
+ * P(known), updated from each answer, which is what summaries and
+ * assessment-level questions read.
+ */
+
+import { Enrollment } from "./config";
+import { Random } from "./random";
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+/** Standard BKT parameters */
+export interface KnowledgeParams {
+  /** P(known) before the first opportunity */
+  init: number;
+  /** P(learning the KC) after each opportunity, if not known yet */
+  learn: number;
+  /** P(wrong answer) when the KC is known */
+  slip: number;
+  /** P(right answer) when the KC isn't known */
+  guess: number;
+}
+
+export interface KnowledgeTracker {
+  /**
+   * Simulate one answer on a KC: sample correctness from the hidden state,
+   * update the estimate, then give the student a chance to learn the KC.
+   */
+  attempt(enrollment: Enrollment, kcId: number): boolean;
+  /** Update the estimate from an answer recorded earlier (no sampling). */
+  observe(enrollment: Enrollment, kcId: number, isCorrect: boolean): void;
+  /** Estimated P(known) for a KC (the persona's prior if never practiced). */
+  mastery(enrollment: Enrollment, kcId: number): number;
+  /** Mean estimated mastery over the student's practiced KCs (or the prior). */
+  overallMastery(enrollment: Enrollment): number;
+  /** P(correct) on a question the student hasn't got a KC for, from overallMastery. */
+  chanceCorrect(enrollment: Enrollment): number;
+}
+
+interface KcState {
+  /** BKT estimate of P(known) */
+  pKnown: number;
+  /** Hidden state, drawn from pKnown at the first simulated answer */
+  known: boolean | null;
+}
+
+// =============================================================================
+// TRACKER
+// =============================================================================
+
+/**
+ * Create an empty tracker. Draws from the shared generator, so a seeded run
+ * reproduces the same answers.
+ */
+export function createKnowledgeTracker(random: Random): KnowledgeTracker {
+  const states = new Map<number, Map<number, KcState>>();
+
+  const stateFor = (enrollment: Enrollment, kcId: number): KcState => {
+    let byKc = states.get(enrollment.id);
+    if (!byKc) {
+      byKc = new Map();
+      states.set(enrollment.id, byKc);
+    }
+    let state = byKc.get(kcId);
+    if (!state) {
+      state = { pKnown: enrollment.persona.knowledge.init, known: null };
+      byKc.set(kcId, state);
+    }
+    return state;
+  };
+
+  const observe = (enrollment: Enrollment, kcId: number, isCorrect: boolean): void => {
+    const { learn, slip, guess } = enrollment.persona.knowledge;
+    const state = stateFor(enrollment, kcId);
+    state.pKnown = posterior(state.pKnown, isCorrect, slip, guess);
+    state.pKnown += (1 - state.pKnown) * learn;
+  };
+
+  const overallMastery = (enrollment: Enrollment): number => {
+    const byKc = states.get(enrollment.id);
+    if (!byKc || byKc.size === 0) return enrollment.persona.knowledge.init;
+    let total = 0;
+    for (const state of byKc.values()) total += state.pKnown;
+    return total / byKc.size;
+  };
+
+  return {
+    attempt(enrollment, kcId) {
+      const { learn, slip, guess } = enrollment.persona.knowledge;
+      const state = stateFor(enrollment, kcId);
+      state.known ??= random.chance(state.pKnown);
+
+      const isCorrect = state.known ? !random.chance(slip) : random.chance(guess);
+      observe(enrollment, kcId, isCorrect);
+      if (!state.known) state.known = random.chance(learn);
+      return isCorrect;
+    },
+    observe,
+    mastery: (enrollment, kcId) => states.get(enrollment.id)?.get(kcId)?.pKnown ?? enrollment.persona.knowledge.init,
+    overallMastery,
+    chanceCorrect(enrollment) {
+      const { slip, guess } = enrollment.persona.knowledge;
+      const m = overallMastery(enrollment);
+      return m * (1 - slip) + (1 - m) * guess;
+    },
+  };
+}
+
+/**
+ * P(known) after seeing one answer (Bayes' rule, before the learning step).
+ */
+function posterior(pKnown: number, isCorrect: boolean, slip: number, guess: number): number {
+  const ifKnown = pKnown * (isCorrect ? 1 - slip : slip);
+  const ifUnknown = (1 - pKnown) * (isCorrect ? guess : 1 - guess);
+  return ifKnown / (ifKnown + ifUnknown);
+}
@@ -9,20 +9,24 @@
  * - Each LESSON has 4 questions (Q1-Q4), each with a knowledge component
  * - Each MASTERY CHECK is linked to the module and has the lesson as prerequisite
  * - Dashboard shows both standalone lessons and mastery checks
+ *
+ * loadLessonsForModule reads an existing module's lessons back, for runs that
+ * skip the lessons phase.
  */
 
 import { sql } from "drizzle-orm";
-import { randomUUID } from "crypto";
 import {
-  db,
-  CONFIG,
+  LESSON_CORRECT_ANSWER,
+  LESSON_DISTRACTORS,
   Teacher,
   LessonData,
   LessonQuestion,
   StandaloneLessonData,
   ModuleLessonData,
   getTimestampDaysAgo,
+  getTimestampDaysFromNow,
 } from "./config";
+import { SeedContext } from "./context";
 
 /**
  * Standalone lesson titles (ramp-up lessons without mastery checks).
@@ -93,12 +97,13 @@ const DEFAULT_PAIRED_TITLES = [
  * Returns a ModuleLessonData object containing both types.
  */
 export async function createAllLessonsForModule(
+  ctx: SeedContext,
   groupId: number,
   moduleId: number,
   teacher: Teacher
 ): Promise<ModuleLessonData> {
-  const standaloneCount = CONFIG.STANDALONE_LESSONS_TO_CREATE;
-  const pairedCount = CONFIG.LESSONS_TO_CREATE;
+  const standaloneCount = ctx.config.STANDALONE_LESSONS_TO_CREATE;
+  const pairedCount = ctx.config.LESSONS_TO_CREATE;
 
   console.log(
     `\nCreating ${standaloneCount} standalone + ${pairedCount} paired lessons for group ${groupId}...`
@@ -107,7 +112,7 @@ export async function createAllLessonsForModule(
   // Create standalone lessons first (no mastery check)
   const standaloneLessons: StandaloneLessonData[] = [];
   for (let l = 0; l < standaloneCount; l++) {
-    const lesson = await createStandaloneLesson(l, groupId, moduleId, teacher);
+    const lesson = await createStandaloneLesson(ctx, l, groupId, moduleId, teacher);
     standaloneLessons.push(lesson);
     console.log(`   + ${lesson.lessonTitle} (standalone)`);
     console.log(`     Lesson ID: ${lesson.lessonId}`);
@@ -117,7 +122,7 @@ export async function createAllLessonsForModule(
   const pairedLessons: LessonData[] = [];
   for (let l = 0; l < pairedCount; l++) {
     // Offset the lesson index to account for standalone lessons
-    const lesson = await createLessonWithMasteryCheck(l, groupId, moduleId, teacher, standaloneCount);
+    const lesson = await createLessonWithMasteryCheck(ctx, l, groupId, moduleId, teacher, standaloneCount);
     pairedLessons.push(lesson);
     console.log(`   + ${lesson.masteryCheckTitle}`);
     console.log(`     Lesson ID: ${lesson.lessonId}, Mastery Check ID: ${lesson.masteryCheckId}`);
@@ -131,18 +136,19 @@ export async function createAllLessonsForModule(
  * @deprecated Use createAllLessonsForModule instead to include standalone lessons
  */
 export async function createLessonsWithMasteryChecks(
+  ctx: SeedContext,
   groupId: number,
   moduleId: number,
   teacher: Teacher
 ): Promise<LessonData[]> {
   console.log(
-    `\nCreating ${CONFIG.LESSONS_TO_CREATE} lessons with mastery checks for group ${groupId}...`
+    `\nCreating ${ctx.config.LESSONS_TO_CREATE} lessons with mastery checks for group ${groupId}...`
   );
 
   const lessons: LessonData[] = [];
 
-  for (let l = 0; l < CONFIG.LESSONS_TO_CREATE; l++) {
-    const lesson = await createLessonWithMasteryCheck(l, groupId, moduleId, teacher, CONFIG.STANDALONE_LESSONS_TO_CREATE);
+  for (let l = 0; l < ctx.config.LESSONS_TO_CREATE; l++) {
+    const lesson = await createLessonWithMasteryCheck(ctx, l, groupId, moduleId, teacher, ctx.config.STANDALONE_LESSONS_TO_CREATE);
     lessons.push(lesson);
     console.log(`   + ${lesson.masteryCheckTitle}`);
     console.log(`     Lesson ID: ${lesson.lessonId}, Mastery Check ID: ${lesson.masteryCheckId}`);
@@ -155,6 +161,7 @@ export async function createLessonsWithMasteryChecks(
  * Create a standalone lesson (no mastery check).
  */
 async function createStandaloneLesson(
+  ctx: SeedContext,
   lessonIndex: number,
   groupId: number,
   moduleId: number,
@@ -166,22 +173,18 @@ async function createStandaloneLesson(
   const lessonTitle = `Ramp Up ${rampUpNum}: ${titleText}`;
 
   // Create LESSON assignment
-  const lessonId = await createLessonAssignment(lessonTitle, teacher);
+  const lessonId = await createLessonAssignment(ctx, lessonTitle, teacher);
 
   // Assign lesson to group
-  const launchDate = getTimestampDaysAgo(CONFIG.DAYS_TO_SEED);
-  const assignedLessonId = await assignToGroup(lessonId, groupId, launchDate);
+  const launchDate = getTimestampDaysAgo(ctx.clock, ctx.config.DAYS_TO_SEED);
+  const assignedLessonId = await assignToGroup(ctx, lessonId, groupId, launchDate);
 
   // Create questions with KCs
-  const questions = await createLessonQuestions(lessonId, lessonTitle, teacher);
+  const questions = await createLessonQuestions(ctx, lessonId, lessonTitle, teacher);
 
   // Link lesson to module (standalone lessons come first)
   const lessonOrder = lessonIndex + 1;
-  await db.execute(
-    sql`INSERT INTO assignment_modules (assignment_id, module_id, "order")
-        VALUES (${lessonId}, ${moduleId}, ${lessonOrder})
-        ON CONFLICT DO NOTHING`
-  );
+  await ctx.writer.linkAssignmentToModule(lessonId, moduleId, lessonOrder);
 
   return {
     lessonId,
@@ -196,6 +199,7 @@ async function createStandaloneLesson(
  * @param standaloneOffset - Number of standalone lessons to offset the module order by
  */
 async function createLessonWithMasteryCheck(
+  ctx: SeedContext,
   lessonIndex: number,
   groupId: number,
   moduleId: number,
@@ -210,27 +214,24 @@ async function createLessonWithMasteryCheck(
   const masteryCheckTitle = `Lesson ${lessonNum}: ${titleText}`;
 
   // Create LESSON assignment
-  const lessonId = await createLessonAssignment(lessonTitle, teacher);
+  const lessonId = await createLessonAssignment(ctx, lessonTitle, teacher);
 
   // Assign lesson to group
-  const launchDate = getTimestampDaysAgo(CONFIG.DAYS_TO_SEED);
-  const assignedLessonId = await assignToGroup(lessonId, groupId, launchDate);
+  const launchDate = getTimestampDaysAgo(ctx.clock, ctx.config.DAYS_TO_SEED);
+  const assignedLessonId = await assignToGroup(ctx, lessonId, groupId, launchDate);
 
   // Create questions with KCs
-  const questions = await createLessonQuestions(lessonId, lessonTitle, teacher);
+  const questions = await createLessonQuestions(ctx, lessonId, lessonTitle, teacher);
 
   // Link lesson to module (lesson comes first in order, after standalone lessons)
   // Standalone lessons take orders 1, 2, ... standaloneOffset
   // Paired lessons: lesson at standaloneOffset + lessonIndex*2 + 1, mastery at standaloneOffset + lessonIndex*2 + 2
   const lessonOrder = standaloneOffset + lessonIndex * 2 + 1;
-  await db.execute(
-    sql`INSERT INTO assignment_modules (assignment_id, module_id, "order")
-        VALUES (${lessonId}, ${moduleId}, ${lessonOrder})
-        ON CONFLICT DO NOTHING`
-  );
+  await ctx.writer.linkAssignmentToModule(lessonId, moduleId, lessonOrder);
 
   // Create MASTERY CHECK assignment
-  const masteryCheckId = await createMasteryCheckAssignment(
+  const { masteryCheckId, masteryQuestion } = await createMasteryCheckAssignment(
+    ctx,
     masteryCheckTitle,
     lessonTitle,
     teacher
@@ -238,21 +239,13 @@ async function createLessonWithMasteryCheck(
 
   // Link mastery check to module (mastery check comes after lesson)
   const masteryOrder = standaloneOffset + lessonIndex * 2 + 2;
-  await db.execute(
-    sql`INSERT INTO assignment_modules (assignment_id, module_id, "order")
-        VALUES (${masteryCheckId}, ${moduleId}, ${masteryOrder})
-        ON CONFLICT DO NOTHING`
-  );
+  await ctx.writer.linkAssignmentToModule(masteryCheckId, moduleId, masteryOrder);
 
   // Assign mastery check to group
-  const assignedMasteryId = await assignToGroup(masteryCheckId, groupId, launchDate);
+  const assignedMasteryId = await assignToGroup(ctx, masteryCheckId, groupId, launchDate);
 
   // Create prerequisite: mastery check requires the lesson
-  await db.execute(
-    sql`INSERT INTO assignment_prerequisites (assignment_id, type, prereq_assignment_id)
-        VALUES (${masteryCheckId}, 'podsie_assignment', ${lessonId})
-        ON CONFLICT DO NOTHING`
-  );
+  await ctx.writer.insertPrerequisite(masteryCheckId, lessonId);
 
   return {
     lessonId,
@@ -262,90 +255,69 @@ async function createLessonWithMasteryCheck(
     assignedLessonId,
     assignedMasteryId,
     questions,
+    masteryQuestion,
   };
 }
 
 /**
  * Create a lesson assignment.
  */
-async function createLessonAssignment(title: string, teacher: Teacher): Promise<number> {
-  const result = await db.execute(
-    sql`INSERT INTO assignments (title, description, created_by, state, config)
-        VALUES (${title}, ${"Auto-generated sandbox lesson"}, ${teacher.id}, 'active',
-                ${JSON.stringify({ mode: "lesson", isOptional: false })}::jsonb)
-        RETURNING id`
-  );
-  return (result[0] as { id: number }).id;
+async function createLessonAssignment(
+  ctx: SeedContext,
+  title: string,
+  teacher: Teacher
+): Promise<number> {
+  return ctx.writer.insertAssignment({
+    title,
+    description: "Auto-generated sandbox lesson",
+    createdBy: teacher.id,
+    config: { mode: "lesson", isOptional: false },
+  });
 }
 
 /**
  * Assign an assignment to a group.
  */
 async function assignToGroup(
+  ctx: SeedContext,
   assignmentId: number,
   groupId: number,
   launchDate: string
 ): Promise<number> {
-  const result = await db.execute(
-    sql`INSERT INTO assigned_assignments (assignment_id, group_id, launch_date, due_date)
-        VALUES (${assignmentId}, ${groupId}, ${launchDate}::timestamptz, NOW() + INTERVAL '30 days')
-        RETURNING id`
-  );
-  return (result[0] as { id: number }).id;
+  const dueDate = getTimestampDaysFromNow(ctx.clock, 30);
+  return ctx.writer.assignToGroup({ assignmentId, groupId, launchDate, dueDate });
 }
 
 /**
  * Create questions with knowledge components for a lesson.
  */
 async function createLessonQuestions(
+  ctx: SeedContext,
   lessonId: number,
   lessonTitle: string,
   teacher: Teacher
 ): Promise<LessonQuestion[]> {
   const questions: LessonQuestion[] = [];
 
-  for (let q = 0; q < CONFIG.QUESTIONS_PER_LESSON; q++) {
+  for (let q = 0; q < ctx.config.QUESTIONS_PER_LESSON; q++) {
     const questionContent = {
       type: "MULTIPLE_CHOICE",
       questionText: `Q${q + 1} for ${lessonTitle}: What is the correct answer?`,
       explanation: "This is the explanation for why this answer is correct.",
       answerChoices: [
-        { id: randomUUID(), answerText: "Correct Answer", isCorrect: true },
-        { id: randomUUID(), answerText: "Incorrect Option B", isCorrect: false },
-        { id: randomUUID(), answerText: "Incorrect Option C", isCorrect: false },
-        { id: randomUUID(), answerText: "Incorrect Option D", isCorrect: false },
+        { id: ctx.random.uuid(), answerText: LESSON_CORRECT_ANSWER, isCorrect: true },
+        ...LESSON_DISTRACTORS.map((answerText) => ({ id: ctx.random.uuid(), answerText, isCorrect: false })),
       ],
     };
 
     // Create question
-    const questionResult = await db.execute(
-      sql`INSERT INTO questions (question_content, created_by, state, config)
-          VALUES (${JSON.stringify(questionContent)}::jsonb, ${teacher.id}, 'active',
-                  ${JSON.stringify({ tutorMode: false })}::jsonb)
-          RETURNING id`
-    );
-    const questionId = (questionResult[0] as { id: number }).id;
-
-    // Create knowledge component (KC tracks position in lesson)
-    const kcResult = await db.execute(
-      sql`INSERT INTO knowledge_components (name, original_question_id, active_in_personal_review)
-          VALUES (${`KC for Q${q + 1} in ${lessonTitle}`}, ${questionId}, true)
-          RETURNING id`
-    );
-    const kcId = (kcResult[0] as { id: number }).id;
-
-    // Link KC to question
-    await db.execute(
-      sql`UPDATE questions SET knowledge_component_id = ${kcId} WHERE id = ${questionId}`
-    );
+    const questionId = await ctx.writer.insertQuestion(questionContent, teacher.id);
+
+    // Create knowledge component (KC tracks position in lesson) and link it to the question
+    const kcId = await ctx.writer.insertKnowledgeComponent(`KC for Q${q + 1} in ${lessonTitle}`, questionId);
 
     // Link question to lesson assignment
-    const aqResult = await db.execute(
-      sql`INSERT INTO assignment_questions (assignment_id, question_id, "order")
-          VALUES (${lessonId}, ${questionId}, ${q + 1})
-          RETURNING id`
-    );
-    const assignmentQuestionId = (aqResult[0] as { id: number }).id;
+    const assignmentQuestionId = await ctx.writer.insertAssignmentQuestion(lessonId, questionId, q + 1);
 
     questions.push({ id: questionId, kcId, assignmentQuestionId });
   }
@@ -357,18 +329,18 @@ async function createLessonQuestions(
  * Create a mastery check assignment with a single question.
  */
 async function createMasteryCheckAssignment(
+  ctx: SeedContext,
   title: string,
   lessonTitle: string,
   teacher: Teacher
-): Promise<number> {
+): Promise<{ masteryCheckId: number; masteryQuestion: LessonData["masteryQuestion"] }> {
   // Create mastery check assignment
-  const masteryResult = await db.execute(
-    sql`INSERT INTO assignments (title, description, created_by, state, config)
-        VALUES (${title}, ${"Mastery check for lesson"}, ${teacher.id}, 'active',
-                ${JSON.stringify({ mode: "sequential", isOptional: false })}::jsonb)
-        RETURNING id`
-  );
-  const masteryCheckId = (masteryResult[0] as { id: number }).id;
+  const masteryCheckId = await ctx.writer.insertAssignment({
+    title,
+    description: "Mastery check for lesson",
+    createdBy: teacher.id,
+    config: { mode: "sequential", isOptional: false },
+  });
 
   // Create mastery check question
   const masteryQuestionContent = {
@@ -376,24 +348,125 @@ async function createMasteryCheckAssignment(
     questionText: `Mastery Check: Demonstrate your understanding of ${lessonTitle}`,
     explanation: "Complete this to show mastery of the lesson content.",
     answerChoices: [
-      { id: randomUUID(), answerText: "I understand the concept", isCorrect: true },
-      { id: randomUUID(), answerText: "I need more practice", isCorrect: false },
+      { id: ctx.random.uuid(), answerText: "I understand the concept", isCorrect: true },
+      { id: ctx.random.uuid(), answerText: "I need more practice", isCorrect: false },
     ],
   };
 
-  const masteryQuestionResult = await db.execute(
-    sql`INSERT INTO questions (question_content, created_by, state, config)
-        VALUES (${JSON.stringify(masteryQuestionContent)}::jsonb, ${teacher.id}, 'active',
-                ${JSON.stringify({ tutorMode: false })}::jsonb)
-        RETURNING id`
-  );
-  const masteryQuestionId = (masteryQuestionResult[0] as { id: number }).id;
+  const masteryQuestionId = await ctx.writer.insertQuestion(masteryQuestionContent, teacher.id);
 
   // Link mastery question to mastery check assignment
-  await db.execute(
-    sql`INSERT INTO assignment_questions (assignment_id, question_id, "order")
-        VALUES (${masteryCheckId}, ${masteryQuestionId}, 1)`
+  const assignmentQuestionId = await ctx.writer.insertAssignmentQuestion(masteryCheckId, masteryQuestionId, 1);
+
+  return {
+    masteryCheckId,
+    masteryQuestion: { id: masteryQuestionId, assignmentQuestionId },
+  };
+}
+
+// =============================================================================
+// LOADING EXISTING LESSONS
+// =============================================================================
+
+/**
+ * Load the lessons and mastery checks already assigned to a group in a module,
+ * matched by the titles createAllLessonsForModule gives them ("Ramp Up N: ..."
+ * and "Lesson N: ..."; a paired lesson and its mastery check share a title).
+ * When several runs left the same title behind, the newest assignment wins.
+ * Exits if the module has no seeded lessons (the lessons phase has to run first).
+ */
+export async function loadLessonsForModule(
+  ctx: SeedContext,
+  groupId: number,
+  moduleId: number
+): Promise<ModuleLessonData> {
+  console.log(`\nLoading existing lessons in module ${moduleId} for group ${groupId}...`);
+
+  const assignmentRows = await ctx.db.execute(
+    sql`SELECT DISTINCT ON (a.title, a.config->>'mode')
+               a.id, a.title, a.config->>'mode' AS mode, aa.id AS assigned_id, am."order"
+        FROM assignments a
+        JOIN assignment_modules am ON am.assignment_id = a.id AND am.module_id = ${moduleId}
+        JOIN assigned_assignments aa ON aa.assignment_id = a.id AND aa.group_id = ${groupId}
+        WHERE a.title LIKE 'Ramp Up %:%' OR a.title LIKE 'Lesson %:%'
+        ORDER BY a.title, a.config->>'mode', a.id DESC`
+  );
+  const assignments = (assignmentRows as {
+    id: number;
+    title: string;
+    mode: string;
+    assigned_id: number;
+    order: number;
+  }[]).sort((a, b) => a.order - b.order);
+
+  if (assignments.length === 0) {
+    console.error(`No seeded lessons found in module ${moduleId} for group ${groupId} (run the lessons phase first)`);
+    process.exit(1);
+  }
+
+  const questionRows = await ctx.db.execute(
+    sql`SELECT aq.assignment_id, aq.id AS assignment_question_id, q.id, q.knowledge_component_id AS kc_id
+        FROM assignment_questions aq
+        JOIN questions q ON q.id = aq.question_id
+        WHERE aq.assignment_id IN (${sql.join(assignments.map((a) => sql`${a.id}`), sql`, `)})
+        ORDER BY aq.assignment_id, aq."order"`
+  );
+  const questionsByAssignment = new Map<number, LessonQuestion[]>();
+  for (const row of questionRows as { assignment_id: number; assignment_question_id: number; id: number; kc_id: number }[]) {
+    const questions = questionsByAssignment.get(row.assignment_id) ?? [];
+    questions.push({ id: row.id, kcId: row.kc_id, assignmentQuestionId: row.assignment_question_id });
+    questionsByAssignment.set(row.assignment_id, questions);
+  }
+
+  const masteryChecksByTitle = new Map(
+    assignments.filter((a) => a.mode === "sequential").map((a) => [a.title, a])
   );
 
-  return masteryCheckId;
+  const standaloneLessons: StandaloneLessonData[] = [];
+  const pairedLessons: LessonData[] = [];
+  for (const lesson of assignments) {
+    if (lesson.mode !== "lesson") continue;
+    const questions = questionsByAssignment.get(lesson.id) ?? [];
+
+    if (lesson.title.startsWith("Ramp Up ")) {
+      standaloneLessons.push({
+        lessonId: lesson.id,
+        lessonTitle: lesson.title,
+        assignedLessonId: lesson.assigned_id,
+        questions,
+      });
+      continue;
+    }
+
+    const masteryCheck = masteryChecksByTitle.get(lesson.title);
+    const masteryQuestion = masteryCheck && questionsByAssignment.get(masteryCheck.id)?.[0];
+    if (!masteryCheck || !masteryQuestion) {
+      console.log(`   ! ${lesson.title}: no mastery check found, skipping`);
+      continue;
+    }
+    pairedLessons.push({
+      lessonId: lesson.id,
+      lessonTitle: lesson.title,
+      masteryCheckId: masteryCheck.id,
+      masteryCheckTitle: masteryCheck.title,
+      assignedLessonId: lesson.assigned_id,
+      assignedMasteryId: masteryCheck.assigned_id,
+      questions,
+      masteryQuestion: { id: masteryQuestion.id, assignmentQuestionId: masteryQuestion.assignmentQuestionId },
+    });
+  }
+
+  console.log(`   Found ${standaloneLessons.length} standalone + ${pairedLessons.length} paired lessons`);
+  return { standaloneLessons, pairedLessons };
+}
+
+/**
+ * KCs taught by a module's lessons, ramp-ups first then paired lessons, in
+ * lesson and question order (what the module's assessments test).
+ */
+export function moduleKcIds(lessons: ModuleLessonData | undefined): number[] {
+  if (!lessons) return [];
+  return [...lessons.standaloneLessons, ...lessons.pairedLessons]
+    .flatMap((lesson) => lesson.questions.map((q) => q.kcId))
+    .filter((kcId) => kcId);
 }
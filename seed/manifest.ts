@@ -0,0 +1,164 @@
+/**
+ * Seed Run Manifests
+ *
+ * Every run records the ID of every row it creates, grouped by the phase that
+ * created it (seed/phases.ts). The manifest is saved as JSON in the runs
+ * directory once the run's transaction commits, and cleanup uses it to delete
+ * exactly those rows: all of them (see cleanupRun in seed/cleanup.ts), or only
+ * the phases a partial run replaces.
+ *
+ * Manifests live in ~/.claude/skills/seed-sandbox-data/runs/ by default;
+ * set SEED_RUNS_DIR to keep them elsewhere.
+ */
+
+import fs from "fs";
+import os from "os";
+import path from "path";
+import type { SeedPhase } from "./config";
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+/** Tables whose rows a run records by primary key. */
+export type ManifestTable =
+  | "events"
+  | "responses"
+  | "assignment_questions"
+  | "assigned_assignments"
+  | "questions"
+  | "knowledge_components"
+  | "assignments"
+  | "enrollments"
+  | "student_profiles"
+  | "auth.users"
+  | "modules";
+
+export type RowId = number | string;
+
+export type ManifestRows = Partial<Record<ManifestTable, RowId[]>>;
+
+/** Seed phases, plus "verify" for modules created while verifying */
+export type ManifestPhase = SeedPhase | "verify";
+
+export interface RunManifest {
+  runId: string;
+  /** Wall-clock time the run started */
+  createdAt: string;
+  /** The run clock's "now" (differs from createdAt when --as-of was used) */
+  asOf: string;
+  randomSeed: number;
+  groupIds: number[];
+  moduleIds: number[];
+  /** Phase new rows are recorded under (see enterPhase in seed/phases.ts) */
+  phase: ManifestPhase;
+  rows: Partial<Record<ManifestPhase, ManifestRows>>;
+  /** Group/module pairs that got a pacing config in the AI Coaching Platform */
+  pacing: { groupId: number; moduleId: number }[];
+}
+
+// =============================================================================
+// RECORDING
+// =============================================================================
+
+/**
+ * Start an empty manifest for a new run.
+ */
+export function createRunManifest(meta: {
+  randomSeed: number;
+  asOf: Date;
+  groupIds: number[];
+  moduleIds: number[];
+}): RunManifest {
+  const startedAt = new Date();
+  return {
+    runId: `run-${startedAt.toISOString().replace(/[-:]/g, "").replace("T", "-").slice(0, 15)}-${meta.randomSeed}`,
+    createdAt: startedAt.toISOString(),
+    asOf: meta.asOf.toISOString(),
+    randomSeed: meta.randomSeed,
+    groupIds: [...meta.groupIds],
+    moduleIds: [...meta.moduleIds],
+    phase: "verify",
+    rows: {},
+    pacing: [],
+  };
+}
+
+/**
+ * Record newly created row IDs for a table, under the current phase.
+ */
+export function recordRows(manifest: RunManifest, table: ManifestTable, ...ids: RowId[]): void {
+  const rows = (manifest.rows[manifest.phase] ??= {});
+  (rows[table] ??= []).push(...ids);
+}
+
+/**
+ * Rows recorded by the given phases (default: every phase), merged by table.
+ */
+export function mergeRows(
+  manifest: RunManifest,
+  phases: ManifestPhase[] = Object.keys(manifest.rows) as ManifestPhase[]
+): ManifestRows {
+  const merged: ManifestRows = {};
+  for (const phase of phases) {
+    for (const [table, ids] of Object.entries(manifest.rows[phase] ?? {})) {
+      (merged[table as ManifestTable] ??= []).push(...(ids ?? []));
+    }
+  }
+  return merged;
+}
+
+/**
+ * Total rows recorded across all phases and tables.
+ */
+export function countRows(manifest: RunManifest): number {
+  return Object.values(mergeRows(manifest)).reduce((sum, ids) => sum + (ids?.length ?? 0), 0);
+}
+
+// =============================================================================
+// STORAGE
+// =============================================================================
+
+export function getRunsDir(): string {
+  return process.env.SEED_RUNS_DIR || path.join(os.homedir(), ".claude/skills/seed-sandbox-data/runs");
+}
+
+function manifestPath(runId: string): string {
+  if (!/^[\w.-]+$/.test(runId)) {
+    throw new Error(`Invalid run ID: ${runId}`);
+  }
+  return path.join(getRunsDir(), `${runId}.json`);
+}
+
+export function saveManifest(manifest: RunManifest): string {
+  const file = manifestPath(manifest.runId);
+  fs.mkdirSync(path.dirname(file), { recursive: true });
+  fs.writeFileSync(file, JSON.stringify(manifest, null, 2) + "\n");
+  return file;
+}
+
+/**
+ * Load one manifest, or null if no run with that ID was recorded.
+ */
+export function loadManifest(runId: string): RunManifest | null {
+  const file = manifestPath(runId);
+  if (!fs.existsSync(file)) return null;
+  return JSON.parse(fs.readFileSync(file, "utf8")) as RunManifest;
+}
+
+/**
+ * All recorded runs, oldest first.
+ */
+export function listManifests(): RunManifest[] {
+  const dir = getRunsDir();
+  if (!fs.existsSync(dir)) return [];
+  return fs
+    .readdirSync(dir)
+    .filter((name) => name.endsWith(".json"))
+    .map((name) => JSON.parse(fs.readFileSync(path.join(dir, name), "utf8")) as RunManifest)
+    .sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+}
+
+export function deleteManifest(runId: string): void {
+  fs.rmSync(manifestPath(runId), { force: true });
+}
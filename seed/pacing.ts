@@ -7,19 +7,20 @@
  * - createPacingConfigs: Creates new configs after seeding assignments
  */
 
-import { CONFIG } from "./config";
+import { DEFAULT_REWARD_GOALS, RewardGoals } from "./config";
+import { SeedContext } from "./context";
 
 /**
  * Get the Solves Coaching API configuration.
  * Duplicated here to avoid importing from main podsie codebase.
  */
 /**
- * Get a start date for the module (45 days ago to match seed data range).
+ * Get a start date for the module: the first school day in the DAYS_TO_SEED
+ * days before the run clock's "now" (the term start, when it falls in them).
  */
-function getModuleStartDate(): string {
-  const date = new Date();
-  date.setDate(date.getDate() - CONFIG.DAYS_TO_SEED);
-  return date.toISOString().split("T")[0]; // YYYY-MM-DD format
+function getModuleStartDate(ctx: SeedContext): string {
+  const dayOffset = ctx.calendar.schoolDays(ctx.config.DAYS_TO_SEED, 0)[0] ?? ctx.config.DAYS_TO_SEED;
+  return ctx.calendar.day(dayOffset).date; // YYYY-MM-DD format
 }
 
 function getApiConfig() {
@@ -82,10 +83,20 @@ async function deletePacingConfig(
 }
 
 /**
- * Clean up pacing configuration for all sandbox groups and modules.
+ * Clean up pacing configuration for the given groups and modules
+ * (defaults to the configured sandbox groups and modules).
  * Call this during cleanup before reseeding assignments.
  */
-export async function cleanupPacingData(): Promise<void> {
+export async function cleanupPacingData(
+  ctx: SeedContext,
+  groupIds: number[] = ctx.config.GROUP_IDS,
+  moduleIds: number[] = ctx.config.MODULE_IDS,
+): Promise<void> {
+  if (ctx.config.DRY_RUN) {
+    console.log("   Skipping pacing cleanup (dry run)");
+    return;
+  }
+
   const { key } = getApiConfig();
 
   if (!key) {
@@ -97,8 +108,8 @@ export async function cleanupPacingData(): Promise<void> {
 
   let deletedCount = 0;
 
-  for (const groupId of CONFIG.GROUP_IDS) {
-    for (const moduleId of CONFIG.MODULE_IDS) {
+  for (const groupId of groupIds) {
+    for (const moduleId of moduleIds) {
       const deleted = await deletePacingConfig(groupId, moduleId);
       if (deleted) {
         deletedCount++;
@@ -127,29 +138,39 @@ interface LessonForPacing {
 }
 
 /**
- * Create pacing configuration for a group + module after seeding.
+ * Request body for POST /api/podsie/lesson-progress.
+ */
+export interface PacingPayload {
+  podsieGroupId: number;
+  podsieModuleId: number;
+  moduleStartDate: string;
+  pointsRewardGoal: number;
+  pointsRewardDescription: string;
+  studentPointsTarget: number;
+  assignments: {
+    podsieAssignmentId: number;
+    groupNumber: number;
+    groupLabel: string;
+    orderIndex: number;
+    assignmentTitle: string;
+  }[];
+  completedSections: number[];
+}
+
+/**
+ * Build the pacing payload for a group + module.
  * Groups lessons with their mastery checks into sections.
  */
-async function createPacingConfig(
+function buildPacingPayload(
+  ctx: SeedContext,
   groupId: number,
   moduleId: number,
   lessons: LessonForPacing[],
-): Promise<boolean> {
-  const { url, key } = getApiConfig();
-
-  if (!key) {
-    return false;
-  }
-
+  goals: RewardGoals,
+): PacingPayload {
   // Build assignments array - each lesson + mastery check pair becomes a section
   const assignments = lessons.flatMap((lesson, idx) => {
-    const entries: {
-      podsieAssignmentId: number;
-      groupNumber: number;
-      groupLabel: string;
-      orderIndex: number;
-      assignmentTitle: string;
-    }[] = [
+    const entries: PacingPayload["assignments"] = [
       {
         podsieAssignmentId: lesson.lessonId,
         groupNumber: idx + 1,
@@ -172,6 +193,35 @@ async function createPacingConfig(
     return entries;
   });
 
+  return {
+    podsieGroupId: groupId,
+    podsieModuleId: moduleId,
+    moduleStartDate: getModuleStartDate(ctx),
+    // Class reward goal and individual student target
+    pointsRewardGoal: goals.pointsRewardGoal,
+    pointsRewardDescription: goals.pointsRewardDescription,
+    studentPointsTarget: goals.studentPointsTarget,
+    assignments,
+    completedSections: [],
+  };
+}
+
+/**
+ * Create pacing configuration for a group + module after seeding.
+ */
+async function createPacingConfig(
+  ctx: SeedContext,
+  groupId: number,
+  moduleId: number,
+  lessons: LessonForPacing[],
+  goals: RewardGoals,
+): Promise<boolean> {
+  const { url, key } = getApiConfig();
+
+  if (!key) {
+    return false;
+  }
+
   try {
     const response = await fetch(`${url}/api/podsie/lesson-progress`, {
       method: "POST",
@@ -179,18 +229,7 @@ async function createPacingConfig(
         Authorization: `Bearer ${key}`,
         "Content-Type": "application/json",
       },
-      body: JSON.stringify({
-        podsieGroupId: groupId,
-        podsieModuleId: moduleId,
-        moduleStartDate: getModuleStartDate(),
-        // Class reward goal
-        pointsRewardGoal: 750,
-        pointsRewardDescription: "Pizza party when we reach our goal!",
-        // Individual student target
-        studentPointsTarget: 100,
-        assignments,
-        completedSections: [],
-      }),
+      body: JSON.stringify(buildPacingPayload(ctx, groupId, moduleId, lessons, goals)),
     });
 
     if (response.ok) {
@@ -214,12 +253,25 @@ async function createPacingConfig(
 /**
  * Create pacing configuration for all sandbox groups after seeding assignments.
  * Call this after lesson creation to set up initial pacing in the AI Coaching Platform.
+ * Groups without an entry in rewardGoals get DEFAULT_REWARD_GOALS.
  */
 export async function createPacingConfigs(
+  ctx: SeedContext,
   groupIds: number[],
   moduleId: number,
   lessons: LessonForPacing[],
+  rewardGoals: Map<number, RewardGoals> = new Map(),
 ): Promise<void> {
+  const goalsFor = (groupId: number) => rewardGoals.get(groupId) ?? DEFAULT_REWARD_GOALS;
+
+  if (ctx.plan) {
+    console.log(`Recording pacing configuration for module ${moduleId} (dry run)...`);
+    for (const groupId of groupIds) {
+      ctx.plan.recordPacingConfig(buildPacingPayload(ctx, groupId, moduleId, lessons, goalsFor(groupId)));
+    }
+    return;
+  }
+
   const { key } = getApiConfig();
 
   if (!key) {
@@ -234,9 +286,10 @@ export async function createPacingConfigs(
   let createdCount = 0;
 
   for (const groupId of groupIds) {
-    const created = await createPacingConfig(groupId, moduleId, lessons);
+    const created = await createPacingConfig(ctx, groupId, moduleId, lessons, goalsFor(groupId));
     if (created) {
       createdCount++;
+      ctx.manifest.pacing.push({ groupId, moduleId });
       console.log(
         `   Created pacing config for group ${groupId}, module ${moduleId}`,
       );
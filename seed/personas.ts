@@ -0,0 +1,253 @@
+/**
+ * Student Personas
+ *
+ * Each enrollment gets one persona that every generator (progress events,
+ * detailed progress, advance, points, attendance, assessments, Canvas) reads,
+ * so a student tells the same story on every dashboard: a steady high
+ * achiever completes everything, knows and learns KCs quickly and is always
+ * present; a chronically absent student rarely shows up, completes little and
+ * skips Canvas work.
+ *
+ * Personas are assigned by position, like the special roles: the students at
+ * ALWAYS_COMPLETE_INDICES and ZERO_START_INDICES get those roles, everyone
+ * else cycles through PERSONA_ROTATION.
+ */
+
+import { ALWAYS_COMPLETE_INDICES, ZERO_START_INDICES } from "./config";
+import type { KnowledgeParams } from "./knowledge";
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+export const PERSONA_KEYS = [
+  "always-complete",
+  "steady-high-achiever",
+  "fast-but-careless",
+  "average",
+  "struggling-then-recovering",
+  "late-joiner",
+  "chronically-absent",
+  "zero-start",
+] as const;
+
+export type PersonaKey = (typeof PERSONA_KEYS)[number];
+
+/**
+ * Where a student is on the most recent lesson, shown on the dashboard as
+ * Today / Yesterday / Earlier.
+ */
+export type CurrentLessonState =
+  | "not-started"
+  | "in-progress-today"
+  | "in-progress-earlier"
+  | "mastery-check-pending"
+  | "mastery-check-today"
+  | "completed-yesterday"
+  | "completed-today";
+
+export interface StudentPersona {
+  key: PersonaKey;
+  label: string;
+  /** Share of each module's paired lessons completed in the seed window */
+  completionRate: number;
+  /** Share of each module's window that passes before the student starts on it */
+  startDelay: number;
+  /** Chance of being in class (and working) on a given school day */
+  attendanceRate: number;
+  /** Average length of a run of absent days (1 = sporadic single days; see seed/attendance.ts) */
+  absenceStreak: number;
+  /** How well the student knows each KC and learns (seed/knowledge.ts) */
+  knowledge: KnowledgeParams;
+  /** Share of assessment questions answered */
+  assessmentResponseRate: number;
+  /** Whether the student submits Canvas responses */
+  submitsCanvas: boolean;
+  /** Chance a lesson is spread over two school days */
+  splitLessonChance: number;
+  /** Chance a mastery check is left for the next school day */
+  masteryDelayChance: number;
+  /** Teacher point awards over the seed window (on days the student is in class) */
+  teacherAwards: number;
+  /** Chance of redeeming a reward after each award, when the balance covers one */
+  spendChance: number;
+  /** Chance of finishing a Zearn lesson on a school day in class */
+  zearnRate: number;
+  currentLesson: CurrentLessonState;
+}
+
+// =============================================================================
+// PERSONAS
+// =============================================================================
+
+export const PERSONAS: Record<PersonaKey, StudentPersona> = {
+  "always-complete": {
+    key: "always-complete",
+    label: "Always complete",
+    completionRate: 1.0,
+    startDelay: 0,
+    attendanceRate: 1.0,
+    absenceStreak: 1,
+    knowledge: { init: 0.75, learn: 0.35, slip: 0.05, guess: 0.25 },
+    assessmentResponseRate: 1.0,
+    submitsCanvas: true,
+    splitLessonChance: 0,
+    masteryDelayChance: 0,
+    teacherAwards: 4,
+    spendChance: 0.3,
+    zearnRate: 0.5,
+    currentLesson: "completed-today",
+  },
+  "steady-high-achiever": {
+    key: "steady-high-achiever",
+    label: "Steady high achiever",
+    completionRate: 1.0,
+    startDelay: 0,
+    attendanceRate: 0.95,
+    absenceStreak: 1,
+    knowledge: { init: 0.65, learn: 0.3, slip: 0.08, guess: 0.25 },
+    assessmentResponseRate: 1.0,
+    submitsCanvas: true,
+    splitLessonChance: 0.2,
+    masteryDelayChance: 0.2,
+    teacherAwards: 4,
+    spendChance: 0.2,
+    zearnRate: 0.4,
+    currentLesson: "completed-yesterday",
+  },
+  "fast-but-careless": {
+    key: "fast-but-careless",
+    label: "Fast but careless",
+    completionRate: 1.0,
+    startDelay: 0,
+    attendanceRate: 0.9,
+    absenceStreak: 1,
+    knowledge: { init: 0.45, learn: 0.25, slip: 0.3, guess: 0.2 },
+    assessmentResponseRate: 1.0,
+    submitsCanvas: true,
+    splitLessonChance: 0.1,
+    masteryDelayChance: 0.1,
+    teacherAwards: 3,
+    spendChance: 0.5,
+    zearnRate: 0.6,
+    currentLesson: "mastery-check-today",
+  },
+  average: {
+    key: "average",
+    label: "Average",
+    completionRate: 0.6,
+    startDelay: 0.05,
+    attendanceRate: 0.8,
+    absenceStreak: 1.5,
+    knowledge: { init: 0.3, learn: 0.2, slip: 0.12, guess: 0.2 },
+    assessmentResponseRate: 0.66,
+    submitsCanvas: true,
+    splitLessonChance: 0.3,
+    masteryDelayChance: 0.4,
+    teacherAwards: 3,
+    spendChance: 0.3,
+    zearnRate: 0.3,
+    currentLesson: "mastery-check-pending",
+  },
+  "struggling-then-recovering": {
+    key: "struggling-then-recovering",
+    label: "Struggling then recovering",
+    completionRate: 0.6,
+    startDelay: 0.1,
+    attendanceRate: 0.75,
+    absenceStreak: 2,
+    knowledge: { init: 0.1, learn: 0.3, slip: 0.1, guess: 0.15 },
+    assessmentResponseRate: 0.66,
+    submitsCanvas: true,
+    splitLessonChance: 0.4,
+    masteryDelayChance: 0.5,
+    teacherAwards: 4,
+    spendChance: 0.3,
+    zearnRate: 0.25,
+    currentLesson: "in-progress-today",
+  },
+  "late-joiner": {
+    key: "late-joiner",
+    label: "Late joiner",
+    completionRate: 0.4,
+    startDelay: 0.5,
+    attendanceRate: 0.85,
+    absenceStreak: 1,
+    knowledge: { init: 0.25, learn: 0.2, slip: 0.1, guess: 0.2 },
+    assessmentResponseRate: 0.33,
+    submitsCanvas: true,
+    splitLessonChance: 0.3,
+    masteryDelayChance: 0.4,
+    teacherAwards: 2,
+    spendChance: 0.3,
+    zearnRate: 0.2,
+    currentLesson: "not-started",
+  },
+  "chronically-absent": {
+    key: "chronically-absent",
+    label: "Chronically absent",
+    completionRate: 0.2,
+    startDelay: 0.15,
+    attendanceRate: 0.35,
+    absenceStreak: 3,
+    knowledge: { init: 0.2, learn: 0.1, slip: 0.15, guess: 0.2 },
+    assessmentResponseRate: 0.33,
+    submitsCanvas: false,
+    splitLessonChance: 0.5,
+    masteryDelayChance: 0.6,
+    teacherAwards: 1,
+    spendChance: 0.4,
+    zearnRate: 0.3,
+    currentLesson: "in-progress-earlier",
+  },
+  "zero-start": {
+    key: "zero-start",
+    label: "Zero start",
+    completionRate: 0,
+    startDelay: 0,
+    attendanceRate: 0.6,
+    absenceStreak: 2,
+    knowledge: { init: 0.1, learn: 0.1, slip: 0.1, guess: 0.2 },
+    assessmentResponseRate: 0,
+    submitsCanvas: false,
+    splitLessonChance: 0,
+    masteryDelayChance: 0,
+    teacherAwards: 0,
+    spendChance: 0,
+    zearnRate: 0,
+    currentLesson: "not-started",
+  },
+};
+
+// Personas for everyone without a special role, by position
+const PERSONA_ROTATION: PersonaKey[] = [
+  "chronically-absent",
+  "steady-high-achiever",
+  "fast-but-careless",
+  "average",
+  "struggling-then-recovering",
+  "late-joiner",
+];
+
+// =============================================================================
+// HELPERS
+// =============================================================================
+
+/**
+ * Persona for the student at this position in a group (active enrollments
+ * ordered by ID).
+ */
+export function personaForPosition(index: number): StudentPersona {
+  if (ALWAYS_COMPLETE_INDICES.includes(index)) return PERSONAS["always-complete"];
+  if (ZERO_START_INDICES.includes(index)) return PERSONAS["zero-start"];
+  return PERSONAS[PERSONA_ROTATION[index % PERSONA_ROTATION.length]];
+}
+
+/** Whether the student's current-lesson state puts them to work today */
+export function worksToday(persona: StudentPersona): boolean {
+  return (
+    persona.currentLesson === "in-progress-today" ||
+    persona.currentLesson === "mastery-check-today" ||
+    persona.currentLesson === "completed-today"
+  );
+}
@@ -0,0 +1,135 @@
+/**
+ * Seed Phases
+ *
+ * The seed pipeline is a fixed sequence of named phases (SEED_PHASES in
+ * seed/config.ts). --only and --skip pick a subset; resolvePhases() then works
+ * out what else the subset implies:
+ *
+ * - Inputs: a phase that reads students or lessons it isn't creating loads
+ *   them from the database instead (e.g. --only canvas reuses the students
+ *   already in each group).
+ * - Dependents: replacing students or lessons would orphan the events and
+ *   responses that reference them, so cleanup also removes the earlier rows
+ *   of every phase built on a replaced one, whether or not that phase runs.
+ *
+ * Teacher, group, and module verification is not a phase; it always runs.
+ */
+
+import { SEED_PHASES, SeedPhase } from "./config";
+import { SeedContext } from "./context";
+import { createPlanRecorder } from "./plan";
+
+// =============================================================================
+// DEPENDENCIES
+// =============================================================================
+
+/** Phases whose rows each phase reads */
+const PHASE_INPUTS: Record<SeedPhase, SeedPhase[]> = {
+  cleanup: [],
+  students: [],
+  lessons: [],
+  events: ["students", "lessons"],
+  points: ["students", "lessons"],
+  attendance: ["students"],
+  assessments: ["students", "lessons"],
+  canvas: ["students"],
+  backfill: [],
+  pacing: ["lessons"],
+};
+
+export interface PhasePlan {
+  /** Phases that run */
+  run: Set<SeedPhase>;
+  /** Phases whose data is loaded from the database because they don't run */
+  load: Set<SeedPhase>;
+  /** Phases whose rows from earlier runs cleanup deletes (empty without cleanup) */
+  replace: SeedPhase[];
+  /** True unless every phase runs */
+  partial: boolean;
+}
+
+// =============================================================================
+// SELECTION
+// =============================================================================
+
+/**
+ * Turn --only/--skip lists into the configured phase list, in pipeline order.
+ * --only implies cleanup (so the selected phases replace their earlier rows)
+ * unless cleanup is skipped explicitly. Throws on unknown phase names.
+ */
+export function selectPhases(only: string[] | null, skip: string[]): SeedPhase[] {
+  for (const name of [...(only ?? []), ...skip]) {
+    if (!(SEED_PHASES as readonly string[]).includes(name)) {
+      throw new Error(`Unknown phase "${name}" (expected ${SEED_PHASES.join(", ")})`);
+    }
+  }
+
+  const selected = only ? new Set<string>([...only, "cleanup"]) : new Set<string>(SEED_PHASES);
+  for (const name of skip) selected.delete(name);
+
+  const phases = SEED_PHASES.filter((phase) => selected.has(phase));
+  if (phases.length === 0) {
+    throw new Error("No phases left to run");
+  }
+  if (phases.length === 1 && phases[0] === "cleanup") {
+    throw new Error("cleanup alone seeds nothing; use the cleanup command to remove a run");
+  }
+  return phases;
+}
+
+/**
+ * Resolve the configured phases into what runs, what is loaded instead, and
+ * which earlier rows cleanup replaces. Rows that reference a replaced phase
+ * (e.g. events of replaced students) are removed with it even when their own
+ * phase is skipped, so skipped phases never leave orphans behind.
+ */
+export function resolvePhases(phases: SeedPhase[]): PhasePlan {
+  const run = new Set(phases);
+
+  const load = new Set<SeedPhase>();
+  for (const phase of run) {
+    for (const input of PHASE_INPUTS[phase]) {
+      if (!run.has(input)) load.add(input);
+    }
+  }
+
+  const replaced = new Set<SeedPhase>();
+  if (run.has("cleanup")) {
+    for (const phase of SEED_PHASES) {
+      if (phase === "cleanup") continue;
+      if (run.has(phase) || PHASE_INPUTS[phase].some((input) => replaced.has(input))) {
+        replaced.add(phase);
+      }
+    }
+  }
+
+  return {
+    run,
+    load,
+    replace: SEED_PHASES.filter((phase) => replaced.has(phase)),
+    partial: run.size < SEED_PHASES.length,
+  };
+}
+
+// =============================================================================
+// RUNNING
+// =============================================================================
+
+/**
+ * Start a phase: flush rows buffered by the previous one, then record new rows
+ * under this phase in the run manifest (so a later --only run can replace them).
+ */
+export async function enterPhase(ctx: SeedContext, phase: SeedPhase): Promise<void> {
+  await ctx.writer.flush();
+  ctx.manifest.phase = phase;
+}
+
+/**
+ * A dry-run context whose writes go to a throwaway recorder. Dry runs can't
+ * load skipped phases' data from the database, so they generate stand-ins
+ * this way without counting them in the plan.
+ */
+export function scratchContext(ctx: SeedContext): SeedContext {
+  const plan = createPlanRecorder(ctx.clock);
+  return { ...ctx, writer: plan, plan };
+}
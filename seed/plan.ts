@@ -0,0 +1,304 @@
+/**
+ * Dry-Run Planner
+ *
+ * A SeedWriter that records what a run would write instead of touching the
+ * database. The seed modules run their normal scheduling logic against it;
+ * afterwards buildPlan() summarizes the result as table counts, a per-day
+ * event histogram, and a per-student outcome. The recorded events and
+ * responses are kept so verify's invariants (seed/invariants.ts) can check
+ * the plan without a database.
+ */
+
+import { SeedConfig, Teacher, Group, toSchoolDateString } from "./config";
+import { Clock } from "./clock";
+import type { PacingPayload } from "./pacing";
+import { SeedWriter, NewEvent, NewResponse } from "./writer";
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+export interface StudentOutcome {
+  enrollmentId: number;
+  name: string;
+  groupId: number;
+  questionsAnswered: number;
+  /** QUESTION_ANSWERED attempts that picked a distractor */
+  wrongAttempts: number;
+  lessonsCompleted: number;
+  masteryChecksCompleted: number;
+  /** Responses keyed by assignment mode (sequential, assessment, ...) */
+  responses: Record<string, { total: number; correct: number }>;
+  points: number;
+  daysPresent: number;
+}
+
+export interface SeedPlan {
+  randomSeed: number;
+  asOf: string;
+  /** Rows that would be inserted, keyed by table name */
+  tables: Record<string, number>;
+  /** Event counts keyed by YYYY-MM-DD, then by event type */
+  eventsByDay: Record<string, Record<string, number>>;
+  students: StudentOutcome[];
+  pacing: PacingPayload[];
+}
+
+export interface PlanRecorder extends SeedWriter {
+  recordPacingConfig(payload: PacingPayload): void;
+  /** Every event and response recorded so far, in insert order */
+  recorded(): { events: NewEvent[]; responses: NewResponse[] };
+  buildPlan(meta: { randomSeed: number; asOf: Date }): SeedPlan;
+}
+
+// =============================================================================
+// PLACEHOLDERS
+// =============================================================================
+
+/**
+ * Stand-in teacher for dry runs (the real one is never looked up).
+ */
+export function placeholderTeacher(config: SeedConfig): Teacher {
+  return { id: `dry-run:${config.TEACHER_EMAIL}`, first_name: "Dry", last_name: "Run" };
+}
+
+/**
+ * Stand-in groups for dry runs, using the configured group codes.
+ */
+export function placeholderGroups(config: SeedConfig): Group[] {
+  return config.GROUP_IDS.map((id) => ({
+    id,
+    group_name: `Group ${id}`,
+    group_code: config.GROUP_CODES[id] ?? "",
+    is313: false, // unknown without the database, so no automatic points
+  }));
+}
+
+// =============================================================================
+// RECORDER
+// =============================================================================
+
+/**
+ * Create a recorder that hands out placeholder IDs and tallies every row
+ * (events by the school date of the run clock's timezone).
+ */
+export function createPlanRecorder(clock: Clock): PlanRecorder {
+  const tables: Record<string, number> = {};
+  const eventsByDay: Record<string, Record<string, number>> = {};
+  const students = new Map<number, StudentOutcome>();
+  const assignmentModes = new Map<number, string>();
+  const assignedToAssignment = new Map<number, number>();
+  const pacing: PacingPayload[] = [];
+  const events: NewEvent[] = [];
+  const responses: NewResponse[] = [];
+  // Latest attendance mark per student and date (later marks override earlier ones)
+  const attendance = new Map<number, Map<string, { at: string; present: boolean }>>();
+  // Points dedupe keys already counted (redeliveries don't change the balance)
+  const dedupeKeys = new Set<string>();
+
+  // Count a row and return its placeholder ID (1-based per table)
+  const record = (table: string): number => {
+    tables[table] = (tables[table] ?? 0) + 1;
+    return tables[table];
+  };
+
+  return {
+    async insertStudent(student) {
+      record("auth.users");
+      record("student_profiles");
+      const enrollmentId = record("enrollments");
+      students.set(enrollmentId, {
+        enrollmentId,
+        name: student.displayName,
+        groupId: student.groupId,
+        questionsAnswered: 0,
+        wrongAttempts: 0,
+        lessonsCompleted: 0,
+        masteryChecksCompleted: 0,
+        responses: {},
+        points: 0,
+        daysPresent: 0,
+      });
+      return enrollmentId;
+    },
+
+    async insertAssignment(assignment) {
+      const id = record("assignments");
+      assignmentModes.set(id, assignment.config.mode);
+      return id;
+    },
+
+    async linkAssignmentToModule() {
+      record("assignment_modules");
+    },
+
+    async insertPrerequisite() {
+      record("assignment_prerequisites");
+    },
+
+    async assignToGroup(assigned) {
+      const id = record("assigned_assignments");
+      assignedToAssignment.set(id, assigned.assignmentId);
+      return id;
+    },
+
+    async insertQuestion() {
+      return record("questions");
+    },
+
+    async insertKnowledgeComponent() {
+      return record("knowledge_components");
+    },
+
+    async insertAssignmentQuestion() {
+      return record("assignment_questions");
+    },
+
+    async insertEvent(event) {
+      record("events");
+      events.push(event);
+      const day = toSchoolDateString(clock, new Date(event.timestamp));
+      const dayCounts = (eventsByDay[day] ??= {});
+      dayCounts[event.type] = (dayCounts[event.type] ?? 0) + 1;
+
+      const outcome = students.get(event.data.enrollmentId as number);
+      if (!outcome) return;
+      switch (event.type) {
+        case "QUESTION_ANSWERED":
+          if (event.data.isCorrect === false) {
+            outcome.wrongAttempts++;
+          } else {
+            outcome.questionsAnswered++;
+          }
+          break;
+        case "LESSON_COMPLETED":
+          outcome.lessonsCompleted++;
+          break;
+        case "ASSIGNMENT_COMPLETED":
+          outcome.masteryChecksCompleted++;
+          break;
+        case "POINTS_UPDATED": {
+          const dedupeKey = event.data.dedupeKey as string | undefined;
+          if (dedupeKey !== undefined) {
+            if (dedupeKeys.has(dedupeKey)) break;
+            dedupeKeys.add(dedupeKey);
+          }
+          outcome.points += event.data.amount as number;
+          break;
+        }
+        case "STUDENT_MARKED_PRESENT":
+        case "STUDENT_MARKED_ABSENT": {
+          const marks = attendance.get(outcome.enrollmentId) ?? new Map<string, { at: string; present: boolean }>();
+          const date = event.data.date as string;
+          const latest = marks.get(date);
+          if (!latest || event.timestamp >= latest.at) {
+            marks.set(date, { at: event.timestamp, present: event.type === "STUDENT_MARKED_PRESENT" });
+          }
+          attendance.set(outcome.enrollmentId, marks);
+          outcome.daysPresent = Array.from(marks.values()).filter((m) => m.present).length;
+          break;
+        }
+      }
+    },
+
+    async insertResponse(response) {
+      record("assignment_question_responses");
+      record("responses");
+      responses.push(response);
+
+      const outcome = students.get(response.enrollmentId);
+      if (outcome) {
+        const assignmentId = assignedToAssignment.get(response.assignedAssignmentId);
+        const mode = (assignmentId !== undefined && assignmentModes.get(assignmentId)) || "unknown";
+        const tally = (outcome.responses[mode] ??= { total: 0, correct: 0 });
+        tally.total++;
+        if (response.isCorrect) tally.correct++;
+      }
+    },
+
+    async flush() {
+      // Nothing is buffered in a dry run
+    },
+
+    recordPacingConfig(payload) {
+      pacing.push(payload);
+    },
+
+    recorded() {
+      return { events: [...events], responses: [...responses] };
+    },
+
+    buildPlan({ randomSeed, asOf }) {
+      const sortedDays = Object.keys(eventsByDay).sort();
+      return {
+        randomSeed,
+        asOf: asOf.toISOString(),
+        tables: { ...tables },
+        eventsByDay: Object.fromEntries(sortedDays.map((day) => [day, eventsByDay[day]])),
+        students: Array.from(students.values()),
+        pacing: [...pacing],
+      };
+    },
+  };
+}
+
+// =============================================================================
+// FORMATTING
+// =============================================================================
+
+/**
+ * Render a plan as human-readable text.
+ */
+export function formatPlanText(plan: SeedPlan): string {
+  const lines: string[] = [];
+  lines.push("=".repeat(60));
+  lines.push("Seed plan (dry run - nothing was written)");
+  lines.push("=".repeat(60));
+  lines.push(`Random seed: ${plan.randomSeed}`);
+  lines.push(`As of: ${plan.asOf}`);
+
+  lines.push("\n=== Rows per table ===");
+  for (const [table, count] of Object.entries(plan.tables)) {
+    lines.push(`   ${table.padEnd(32)} ${count}`);
+  }
+
+  lines.push("\n=== Events per day ===");
+  for (const [day, counts] of Object.entries(plan.eventsByDay)) {
+    const total = Object.values(counts).reduce((sum, n) => sum + n, 0);
+    const breakdown = Object.entries(counts)
+      .map(([type, n]) => `${type}=${n}`)
+      .join(", ");
+    lines.push(`   ${day}: ${String(total).padStart(4)}  (${breakdown})`);
+  }
+
+  lines.push("\n=== Student outcomes ===");
+  let currentGroup = -1;
+  for (const s of plan.students) {
+    if (s.groupId !== currentGroup) {
+      lines.push(`\n   Group ${s.groupId}`);
+      currentGroup = s.groupId;
+    }
+    const responses = Object.entries(s.responses)
+      .map(([mode, r]) => `${mode} ${r.correct}/${r.total}`)
+      .join(", ");
+    lines.push(
+      `   - ${s.name}: ${s.lessonsCompleted} lessons, ${s.masteryChecksCompleted} mastery checks, ` +
+        `${s.questionsAnswered} questions (${s.wrongAttempts} wrong attempts), ${s.points} pts, ` +
+        `${s.daysPresent} days present` +
+        (responses ? ` | responses: ${responses}` : "")
+    );
+  }
+
+  lines.push("\n=== Pacing payloads ===");
+  if (plan.pacing.length === 0) {
+    lines.push("   None");
+  }
+  for (const p of plan.pacing) {
+    lines.push(
+      `   Group ${p.podsieGroupId}, module ${p.podsieModuleId}: start ${p.moduleStartDate}, ` +
+        `${p.assignments.length} assignments, goal ${p.pointsRewardGoal} pts, student target ${p.studentPointsTarget} pts`
+    );
+  }
+
+  return lines.join("\n");
+}
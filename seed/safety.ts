@@ -0,0 +1,167 @@
+/**
+ * Local Database Safety Guard
+ *
+ * Every entry point (seedSandboxData.ts, checkData.ts) calls
+ * assertLocalDatabase() before its first query, and seed commands call
+ * confirmDestructive() before deleting anything.
+ *
+ * The connection URL (POSTGRES_URL) is parsed rather than substring-matched:
+ * its host must be on the allowlist, its port on the port allowlist, and it
+ * must not match a known hosted/production pattern (checked even for
+ * allowlisted hosts). Extend the allowlists for a Docker or non-default setup:
+ *
+ *   SEED_ALLOWED_DB_HOSTS=localhost,127.0.0.1,db   SEED_ALLOWED_DB_PORTS=5432,54322
+ */
+
+import { config as loadEnv } from "dotenv";
+import { createInterface } from "node:readline/promises";
+
+// =============================================================================
+// CONFIGURATION
+// =============================================================================
+
+export const DEFAULT_ALLOWED_HOSTS = ["localhost", "127.0.0.1", "::1"];
+
+// 5432: plain Postgres, 54322: `supabase start`
+export const DEFAULT_ALLOWED_PORTS = [5432, 54322];
+
+/** Hosted Postgres providers; a match is refused even if allowlisted */
+const PRODUCTION_HOST_PATTERNS = [
+  /\.supabase\.co$/i,
+  /\.supabase\.com$/i,
+  /\.rds\.amazonaws\.com$/i,
+  /\.neon\.tech$/i,
+  /\.render\.com$/i,
+  /\.herokuapp\.com$/i,
+  /\.azure\.com$/i,
+  /\.cloudsql\./i,
+  /prod/i,
+];
+
+export interface DatabaseTarget {
+  host: string;
+  port: number;
+  database: string;
+  user: string;
+}
+
+// =============================================================================
+// URL CHECKS
+// =============================================================================
+
+/**
+ * Parse a postgres:// or postgresql:// connection URL.
+ * Throws if the URL is malformed or uses another scheme.
+ */
+export function parseDatabaseUrl(url: string): DatabaseTarget {
+  let parsed: URL;
+  try {
+    parsed = new URL(url);
+  } catch {
+    throw new Error("POSTGRES_URL is not a valid URL");
+  }
+  if (parsed.protocol !== "postgres:" && parsed.protocol !== "postgresql:") {
+    throw new Error(`POSTGRES_URL must use postgres:// or postgresql:// (got ${parsed.protocol}//)`);
+  }
+
+  return {
+    // IPv6 hosts come back bracketed ("[::1]")
+    host: parsed.hostname.replace(/^\[(.*)\]$/, "$1").toLowerCase(),
+    port: parsed.port ? Number(parsed.port) : 5432,
+    database: decodeURIComponent(parsed.pathname.replace(/^\//, "")),
+    user: decodeURIComponent(parsed.username),
+  };
+}
+
+/**
+ * Why a target is not a local database, or null if it is.
+ */
+export function checkDatabaseTarget(
+  target: DatabaseTarget,
+  allowedHosts: string[] = DEFAULT_ALLOWED_HOSTS,
+  allowedPorts: number[] = DEFAULT_ALLOWED_PORTS
+): string | null {
+  if (PRODUCTION_HOST_PATTERNS.some((pattern) => pattern.test(target.host))) {
+    return `host ${target.host} looks like a hosted/production database`;
+  }
+  if (!allowedHosts.includes(target.host)) {
+    return `host ${target.host} is not in the allowlist (${allowedHosts.join(", ")})`;
+  }
+  if (!allowedPorts.includes(target.port)) {
+    return `port ${target.port} is not in the allowlist (${allowedPorts.join(", ")})`;
+  }
+  return null;
+}
+
+/**
+ * Exit unless POSTGRES_URL (from the environment or the project's .env)
+ * points at an allowed local database. Call before the first query; the
+ * project's db client only connects on first use.
+ */
+export function assertLocalDatabase(): DatabaseTarget {
+  loadEnv({ path: `${process.cwd()}/.env` });
+
+  const url = process.env.POSTGRES_URL;
+  if (!url) {
+    console.error("POSTGRES_URL not found in environment");
+    process.exit(1);
+  }
+
+  let target: DatabaseTarget;
+  try {
+    target = parseDatabaseUrl(url);
+  } catch (err) {
+    console.error(`SAFETY: ${(err as Error).message}`);
+    process.exit(1);
+  }
+
+  const problem = checkDatabaseTarget(
+    target,
+    listFromEnv("SEED_ALLOWED_DB_HOSTS")?.map((host) => host.toLowerCase()) ?? DEFAULT_ALLOWED_HOSTS,
+    listFromEnv("SEED_ALLOWED_DB_PORTS")?.map(Number) ?? DEFAULT_ALLOWED_PORTS
+  );
+  if (problem) {
+    console.error("SAFETY: These scripts only run against LOCAL databases!");
+    console.error(`   Refusing POSTGRES_URL: ${problem}`);
+    process.exit(1);
+  }
+
+  console.log(`Safety check passed - local database ${target.host}:${target.port}/${target.database}\n`);
+  return target;
+}
+
+function listFromEnv(name: string): string[] | null {
+  const raw = process.env[name];
+  if (!raw) return null;
+  return raw
+    .split(",")
+    .map((part) => part.trim())
+    .filter((part) => part.length > 0);
+}
+
+// =============================================================================
+// CONFIRMATION
+// =============================================================================
+
+/**
+ * Ask before a destructive step. Passes straight through with --yes; without
+ * it, asks on an interactive terminal and exits unless the answer is "yes".
+ * Non-interactive runs (pipes, CI) must pass --yes.
+ */
+export async function confirmDestructive(description: string, yes: boolean): Promise<void> {
+  if (yes) return;
+
+  if (!process.stdin.isTTY) {
+    console.error(`Refusing to ${description} without confirmation (pass --yes in non-interactive runs)`);
+    process.exit(1);
+  }
+
+  const prompt = createInterface({ input: process.stdin, output: process.stderr });
+  const answer = await prompt.question(`About to ${description}. Type "yes" to continue: `);
+  prompt.close();
+
+  if (answer.trim().toLowerCase() !== "yes") {
+    console.error("Aborted; nothing was changed");
+    process.exit(1);
+  }
+}
@@ -0,0 +1,153 @@
+/**
+ * Class Period Schedule
+ *
+ * When each group meets: its class period from the bell schedule (config
+ * CLASS_PERIODS, e.g. 2nd period 9:05-9:50) in the school's timezone
+ * (SCHOOL_TIMEZONE, carried by the run clock). Every in-class timestamp
+ * (lesson questions and completions, mastery checks, teacher awards, Zearn
+ * lessons, assessment and Canvas responses, attendance auto-marks) is a step
+ * into the period, so class activity never drifts outside it or across
+ * midnight UTC, whatever timezone the seeder runs in.
+ *
+ * The period is split into QUESTIONS_PER_LESSON + STEP_SLACK equal steps:
+ * room for a lesson's questions and its completion after up to three steps
+ * of per-student stagger. Later steps are held at the last one. Before
+ * today's period starts, the latest day of class is the day before.
+ *
+ * A ClassTimeline (one per run) remembers where each student's work on a day
+ * ends, so lessons planned onto the same day follow one another instead of
+ * reusing the same steps.
+ */
+
+import { ClassPeriod, DEFAULT_CLASS_PERIOD, SeedConfig, getDateDaysAgo, timeOfDayMinutes } from "./config";
+import { Clock } from "./clock";
+import { instantInTimezone } from "./timezone";
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+export interface ClassSchedule {
+  period: ClassPeriod;
+  /** Length of one step of the period */
+  stepMinutes: number;
+  /**
+   * Days ago of the latest period that has started: 0 once today's has, else
+   * 1. In-class work is never planned on a later day.
+   */
+  latestDay: number;
+  /** The instant `step` steps into the period `dayOffset` days ago */
+  at(dayOffset: number, step?: number): string;
+  /**
+   * `count` instants a step apart from `firstStep` steps into the period,
+   * squeezed closer when they would run past its end. While the period is
+   * under way they are pulled back to end by "now" (never before it starts).
+   */
+  steps(dayOffset: number, firstStep: number, count: number): string[];
+  /**
+   * `count` instants from `from` (an instant in the period `dayOffset` days
+   * ago) on, at most a step apart. When that would run past the end of the
+   * period (or "now", while it's under way) they are squeezed, leaving room
+   * for SQUEEZE_RESERVE more instants after them so later work still fits.
+   */
+  stepsAfter(dayOffset: number, from: number, count: number): string[];
+  /** e.g. "2nd period 09:05-09:50 America/New_York" */
+  describe(): string;
+}
+
+export interface ClassTimeline {
+  /**
+   * `count` instants for a student's work starting `firstStep` steps into the
+   * period `dayOffset` days ago (see ClassSchedule.steps), moved after their
+   * earlier work that day. Leaves a gap after the last one for its attempts.
+   */
+  steps(schedule: ClassSchedule, enrollmentId: number, dayOffset: number, firstStep: number, count: number): string[];
+}
+
+// Steps per period beyond QUESTIONS_PER_LESSON
+const STEP_SLACK = 5;
+
+// Instants a squeezed stepsAfter leaves room for after its own
+const SQUEEZE_RESERVE = 30;
+
+// =============================================================================
+// SCHEDULE
+// =============================================================================
+
+/**
+ * The schedule for a group: its CLASS_PERIODS entry, or DEFAULT_CLASS_PERIOD.
+ */
+export function classScheduleFor(config: SeedConfig, clock: Clock, groupId: number): ClassSchedule {
+  const period = config.CLASS_PERIODS[groupId] ?? DEFAULT_CLASS_PERIOD;
+  return createClassSchedule(clock, period, config.QUESTIONS_PER_LESSON + STEP_SLACK);
+}
+
+/**
+ * Create a schedule for one class period split into stepsPerPeriod steps,
+ * with day offsets relative to the run clock.
+ */
+export function createClassSchedule(clock: Clock, period: ClassPeriod, stepsPerPeriod: number): ClassSchedule {
+  const startMinutes = timeOfDayMinutes(period.start);
+  const lengthMs = (timeOfDayMinutes(period.end) - startMinutes) * 60 * 1000;
+  const stepMs = lengthMs / stepsPerPeriod;
+  const now = clock.now().getTime();
+  const periodStartOn = (dayOffset: number): number =>
+    instantInTimezone(getDateDaysAgo(clock, dayOffset), startMinutes, clock.timezone).getTime();
+
+  const steps = (dayOffset: number, firstStep: number, count: number): string[] => {
+    const periodStart = periodStartOn(dayOffset);
+    let start = periodStart + Math.min(firstStep, stepsPerPeriod - 1) * stepMs;
+    let spacing = Math.min(stepMs, (periodStart + lengthMs - start) / count);
+
+    if (start + (count - 1) * spacing > now && now >= periodStart) {
+      start = Math.max(now - (count - 1) * spacing, periodStart);
+      if (count > 1) spacing = Math.min(spacing, (now - start) / (count - 1));
+    }
+    return Array.from({ length: count }, (_, k) => new Date(Math.round(start + k * spacing)).toISOString());
+  };
+
+  const stepsAfter = (dayOffset: number, from: number, count: number): string[] => {
+    const periodStart = periodStartOn(dayOffset);
+    const end = now >= periodStart ? Math.min(periodStart + lengthMs, now) : periodStart + lengthMs;
+    const spacing = Math.min(stepMs, Math.max(0, end - from) / (count + SQUEEZE_RESERVE));
+    return Array.from({ length: count }, (_, k) => new Date(Math.round(from + k * spacing)).toISOString());
+  };
+
+  return {
+    period,
+    stepMinutes: stepMs / (60 * 1000),
+    latestDay: now >= periodStartOn(0) ? 0 : 1,
+    at: (dayOffset, step = 0) => steps(dayOffset, step, 1)[0],
+    steps,
+    stepsAfter,
+    describe: () => `${period.name} ${period.start}-${period.end} ${clock.timezone}`,
+  };
+}
+
+// =============================================================================
+// TIMELINE
+// =============================================================================
+
+/**
+ * Create an empty timeline. A run's lesson planners share it
+ * (SeedContext.timeline), so lessons planned onto the same day for a student
+ * never share a timestamp.
+ */
+export function createClassTimeline(): ClassTimeline {
+  // "enrollmentId:dayOffset" -> when the student's work that day ends (epoch ms)
+  const busyUntil = new Map<string, number>();
+
+  return {
+    steps(schedule, enrollmentId, dayOffset, firstStep, count) {
+      const key = `${enrollmentId}:${dayOffset}`;
+      const busy = busyUntil.get(key);
+      // One extra instant marks where this work ends
+      let times = schedule.steps(dayOffset, firstStep, count + 1);
+      if (busy !== undefined && Date.parse(times[0]) < busy) {
+        times = schedule.stepsAfter(dayOffset, busy, count + 1);
+      }
+      busyUntil.set(key, Date.parse(times[count]));
+      return times.slice(0, count);
+    },
+  };
+}
@@ -0,0 +1,100 @@
+/**
+ * School Timezone
+ *
+ * Date arithmetic in the school's IANA timezone (e.g. America/New_York)
+ * instead of the machine's, so a run's day boundaries and class periods come
+ * out the same wherever the seeder runs. Dates are YYYY-MM-DD strings and
+ * times of day are minutes after midnight; both are converted to and from
+ * instants here and nowhere else.
+ */
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Intl formatters are slow to build, so keep one per timezone
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+function formatterFor(timezone: string): Intl.DateTimeFormat {
+  let formatter = formatters.get(timezone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat("en-US", {
+      timeZone: timezone,
+      hourCycle: "h23",
+      year: "numeric",
+      month: "2-digit",
+      day: "2-digit",
+      hour: "2-digit",
+      minute: "2-digit",
+      second: "2-digit",
+    });
+    formatters.set(timezone, formatter);
+  }
+  return formatter;
+}
+
+/** Wall-clock fields of an instant in a timezone */
+function wallClock(instant: Date, timezone: string): Record<"year" | "month" | "day" | "hour" | "minute" | "second", number> {
+  const fields = { year: 0, month: 0, day: 0, hour: 0, minute: 0, second: 0 };
+  for (const part of formatterFor(timezone).formatToParts(instant)) {
+    if (part.type in fields) fields[part.type as keyof typeof fields] = Number(part.value);
+  }
+  return fields;
+}
+
+/** How far the timezone's wall clock is ahead of UTC at an instant */
+function offsetMs(instantMs: number, timezone: string): number {
+  const w = wallClock(new Date(instantMs), timezone);
+  return Date.UTC(w.year, w.month - 1, w.day, w.hour, w.minute, w.second) - Math.floor(instantMs / 1000) * 1000;
+}
+
+/** Whether a timezone name is one Intl knows (e.g. "America/New_York") */
+export function isValidTimezone(timezone: string): boolean {
+  try {
+    formatterFor(timezone);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/** The date (YYYY-MM-DD) an instant falls on in a timezone */
+export function dateInTimezone(instant: Date, timezone: string): string {
+  const w = wallClock(instant, timezone);
+  return `${w.year}-${String(w.month).padStart(2, "0")}-${String(w.day).padStart(2, "0")}`;
+}
+
+/** The time of day (minutes after midnight) an instant falls at in a timezone */
+export function minutesInTimezone(instant: Date, timezone: string): number {
+  const w = wallClock(instant, timezone);
+  return w.hour * 60 + w.minute + w.second / 60;
+}
+
+/**
+ * The instant a timezone's wall clock reads a time of day (minutes after
+ * midnight) on a date. Times skipped by a DST change land an hour later.
+ */
+export function instantInTimezone(date: string, minutes: number, timezone: string): Date {
+  const [year, month, day] = date.split("-").map(Number);
+  const wallMs = Date.UTC(year, month - 1, day) + minutes * 60 * 1000;
+  // The offset at the guess is right unless a DST change falls in between
+  const guess = wallMs - offsetMs(wallMs, timezone);
+  return new Date(wallMs - offsetMs(guess, timezone));
+}
+
+/** The date `days` days after `date` (before it, when negative) */
+export function addDays(date: string, days: number): string {
+  const [year, month, day] = date.split("-").map(Number);
+  return new Date(Date.UTC(year, month - 1, day + days)).toISOString().slice(0, 10);
+}
+
+/** Whole days from `from` to `to` (positive when `to` is later) */
+export function daysBetween(from: string, to: string): number {
+  const [fy, fm, fd] = from.split("-").map(Number);
+  const [ty, tm, td] = to.split("-").map(Number);
+  return Math.round((Date.UTC(ty, tm - 1, td) - Date.UTC(fy, fm - 1, fd)) / DAY_MS);
+}
+
+/** Day of the week of a date (0 = Sunday, 6 = Saturday) */
+export function weekdayOf(date: string): number {
+  const [year, month, day] = date.split("-").map(Number);
+  return new Date(Date.UTC(year, month - 1, day)).getUTCDay();
+}
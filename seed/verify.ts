@@ -5,18 +5,20 @@
  */
 
 import { sql } from "drizzle-orm";
-import { db, CONFIG, Teacher, Group } from "./config";
+import { Teacher, Group } from "./config";
+import { SeedContext } from "./context";
+import { recordRows } from "./manifest";
 
 /**
  * Verify teacher exists and return teacher data.
  */
-export async function verifyTeacher(): Promise<Teacher> {
-  const teacherResult = await db.execute(
-    sql`SELECT id, first_name, last_name FROM teacher_profiles WHERE email = ${CONFIG.TEACHER_EMAIL} LIMIT 1`
+export async function verifyTeacher(ctx: SeedContext): Promise<Teacher> {
+  const teacherResult = await ctx.db.execute(
+    sql`SELECT id, first_name, last_name FROM teacher_profiles WHERE email = ${ctx.config.TEACHER_EMAIL} LIMIT 1`
   );
 
   if (teacherResult.length === 0) {
-    console.error(`Teacher not found: ${CONFIG.TEACHER_EMAIL}`);
+    console.error(`Teacher not found: ${ctx.config.TEACHER_EMAIL}`);
     process.exit(1);
   }
 
@@ -28,12 +30,12 @@ export async function verifyTeacher(): Promise<Teacher> {
 /**
  * Verify all groups exist and update group_code if needed.
  */
-export async function verifyGroups(): Promise<Group[]> {
+export async function verifyGroups(ctx: SeedContext): Promise<Group[]> {
   const groups: Group[] = [];
 
-  for (const groupId of CONFIG.GROUP_IDS) {
-    const groupResult = await db.execute(
-      sql`SELECT id, group_name, group_code FROM groups WHERE id = ${groupId} LIMIT 1`
+  for (const groupId of ctx.config.GROUP_IDS) {
+    const groupResult = await ctx.db.execute(
+      sql`SELECT id, group_name, group_code, COALESCE(is313, false) AS is313 FROM groups WHERE id = ${groupId} LIMIT 1`
     );
 
     if (groupResult.length === 0) {
@@ -44,9 +46,9 @@ export async function verifyGroups(): Promise<Group[]> {
     const group = groupResult[0] as Group;
 
     // Update group_code if needed for the mastery_checks_by_enrollment_daily view
-    const targetCode = CONFIG.GROUP_CODES[groupId];
+    const targetCode = ctx.config.GROUP_CODES[groupId];
     if (targetCode && group.group_code !== targetCode) {
-      await db.execute(
+      await ctx.db.execute(
         sql`UPDATE groups SET group_code = ${targetCode} WHERE id = ${groupId}`
       );
       console.log(`Updated group: ${group.group_name} (${group.group_code} -> ${targetCode})`);
@@ -64,17 +66,20 @@ export async function verifyGroups(): Promise<Group[]> {
 /**
  * Verify modules exist or create new ones.
  */
-export async function verifyOrCreateModules(teacher: Teacher): Promise<number[]> {
+export async function verifyOrCreateModules(
+  ctx: SeedContext,
+  teacher: Teacher
+): Promise<number[]> {
   const moduleIds: number[] = [];
 
-  for (let i = 0; i < CONFIG.MODULE_IDS.length; i++) {
-    const moduleId = CONFIG.MODULE_IDS[i];
+  for (let i = 0; i < ctx.config.MODULE_IDS.length; i++) {
+    const moduleId = ctx.config.MODULE_IDS[i];
     // Generate module name following "Alg 1 Unit 8.X" pattern
     const unitNumber = 3 + i; // Start at 8.3, then 8.4, 8.5, etc.
     const moduleName = `Alg 1 Unit 8.${unitNumber}`;
 
     if (moduleId) {
-      const moduleResult = await db.execute(
+      const moduleResult = await ctx.db.execute(
         sql`SELECT id, name FROM modules WHERE id = ${moduleId} LIMIT 1`
       );
 
@@ -87,7 +92,7 @@ export async function verifyOrCreateModules(teacher: Teacher): Promise<number[]>
 
       // Update module name to match expected convention
       if (mod.name !== moduleName) {
-        await db.execute(sql`UPDATE modules SET name = ${moduleName} WHERE id = ${moduleId}`);
+        await ctx.db.execute(sql`UPDATE modules SET name = ${moduleName} WHERE id = ${moduleId}`);
         console.log(`Updated module: ${mod.name} -> ${moduleName}`);
       } else {
         console.log(`Using module: ${mod.name}`);
@@ -95,12 +100,13 @@ export async function verifyOrCreateModules(teacher: Teacher): Promise<number[]>
       moduleIds.push(moduleId);
     } else {
       // Create a new module
-      const newModule = await db.execute(
+      const newModule = await ctx.db.execute(
         sql`INSERT INTO modules (name, description, created_by)
             VALUES (${moduleName}, 'Auto-generated for sandbox testing', ${teacher.id})
             RETURNING id, name`
       );
       const newModuleId = (newModule[0] as { id: number }).id;
+      recordRows(ctx.manifest, "modules", newModuleId);
       console.log(`Created module: ${moduleName} (ID: ${newModuleId})`);
       moduleIds.push(newModuleId);
     }
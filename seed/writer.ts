@@ -0,0 +1,320 @@
+/**
+ * Seed Writer
+ *
+ * Every row a seed run creates goes through a SeedWriter. The database writer
+ * executes the INSERTs; the dry-run planner (seed/plan.ts) implements the same
+ * interface but only records what would have been written.
+ *
+ * Events and responses are the bulk of a run, so the database writer buffers
+ * them and flushes multi-row INSERTs of BATCH_SIZE rows. Call flush() before
+ * reading those tables back and at the end of the run.
+ *
+ * The database writer also records every ID it creates in the run manifest
+ * (seed/manifest.ts) so cleanup can remove exactly this run's rows.
+ */
+
+import { sql } from "drizzle-orm";
+import { randomUUID } from "crypto";
+import { Database } from "./config";
+import { RunManifest, recordRows } from "./manifest";
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+export interface NewStudent {
+  userId: string;
+  email: string;
+  firstName: string | null;
+  lastName: string | null;
+  displayName: string;
+  groupId: number;
+}
+
+export interface NewAssignment {
+  title: string;
+  description: string;
+  createdBy: string;
+  config: { mode: string; [key: string]: unknown };
+}
+
+export interface NewAssignedAssignment {
+  assignmentId: number;
+  groupId: number;
+  launchDate: string;
+  dueDate: string;
+}
+
+export interface NewEvent {
+  type: string;
+  data: Record<string, unknown>;
+  timestamp: string;
+}
+
+export interface NewResponse {
+  enrollmentId: number;
+  questionId: number;
+  isCorrect: boolean;
+  content: Record<string, unknown>;
+  timestamp: string;
+  assignmentQuestionId: number;
+  assignedAssignmentId: number;
+}
+
+export interface SeedWriter {
+  /**
+   * Create auth user, student profile, and enrollment. Returns the enrollment ID, or null if it already existed.
+   * Throws if the user or profile already exists (userId must be new).
+   */
+  insertStudent(student: NewStudent): Promise<number | null>;
+  insertAssignment(assignment: NewAssignment): Promise<number>;
+  linkAssignmentToModule(assignmentId: number, moduleId: number, order: number): Promise<void>;
+  insertPrerequisite(assignmentId: number, prereqAssignmentId: number): Promise<void>;
+  assignToGroup(assigned: NewAssignedAssignment): Promise<number>;
+  insertQuestion(content: Record<string, unknown>, createdBy: string): Promise<number>;
+  /** Create a knowledge component and link it to its question. */
+  insertKnowledgeComponent(name: string, questionId: number): Promise<number>;
+  insertAssignmentQuestion(assignmentId: number, questionId: number, order: number): Promise<number>;
+  /** Buffered; written on the next flush (or when the batch fills). */
+  insertEvent(event: NewEvent): Promise<void>;
+  /** Buffered response plus its assignment_question_responses link. */
+  insertResponse(response: NewResponse): Promise<void>;
+  /** Write any buffered events and responses. */
+  flush(): Promise<void>;
+}
+
+// =============================================================================
+// BATCHING
+// =============================================================================
+
+interface RowBuffer<T> {
+  add(row: T): Promise<void>;
+  flush(): Promise<void>;
+}
+
+/**
+ * Collect rows and hand them to writeBatch in groups of batchSize.
+ */
+function createRowBuffer<T>(batchSize: number, writeBatch: (rows: T[]) => Promise<void>): RowBuffer<T> {
+  let rows: T[] = [];
+
+  const flush = async () => {
+    if (rows.length === 0) return;
+    const batch = rows;
+    rows = [];
+    await writeBatch(batch);
+  };
+
+  return {
+    async add(row) {
+      rows.push(row);
+      if (rows.length >= batchSize) await flush();
+    },
+    flush,
+  };
+}
+
+async function insertEventBatch(db: Database, manifest: RunManifest, events: NewEvent[]): Promise<void> {
+  const ids = events.map(() => randomUUID());
+  const values = events.map(
+    (event, i) =>
+      sql`(${ids[i]}, ${event.type}, ${JSON.stringify(event.data)}::jsonb, ${event.timestamp}::timestamptz, ${event.timestamp}::timestamptz)`
+  );
+  await db.execute(
+    sql`INSERT INTO events (id, type, data, created_at, updated_at)
+        VALUES ${sql.join(values, sql`, `)}`
+  );
+  recordRows(manifest, "events", ...ids);
+}
+
+/** A response's student, question and creation time, as "enrollmentId:questionId:epochMs" */
+function responseKey(enrollmentId: number, questionId: number, createdAt: string | Date): string {
+  return `${Number(enrollmentId)}:${Number(questionId)}:${new Date(createdAt).getTime()}`;
+}
+
+async function insertResponseBatch(db: Database, manifest: RunManifest, responses: NewResponse[]): Promise<void> {
+  const values = responses.map(
+    (r) =>
+      sql`(${r.enrollmentId}, ${r.questionId}, ${r.isCorrect}, ${JSON.stringify(r.content)}::jsonb, ${r.timestamp}::timestamptz, ${r.timestamp}::timestamptz)`
+  );
+  // RETURNING order isn't guaranteed, so match rows back by student, question and time
+  // (responses sharing all three are interchangeable)
+  const inserted = await db.execute(
+    sql`INSERT INTO responses (enrollment_id, question_id, is_correct, response_content, created_at, updated_at)
+        VALUES ${sql.join(values, sql`, `)}
+        RETURNING id, enrollment_id, question_id, created_at`
+  );
+  const idsByKey = new Map<string, number[]>();
+  for (const row of inserted as { id: number; enrollment_id: number; question_id: number; created_at: string | Date }[]) {
+    const key = responseKey(row.enrollment_id, row.question_id, row.created_at);
+    idsByKey.set(key, [...(idsByKey.get(key) ?? []), row.id]);
+  }
+  const ids = responses.map((r) => {
+    const id = idsByKey.get(responseKey(r.enrollmentId, r.questionId, r.timestamp))?.shift();
+    if (id === undefined) {
+      throw new Error(`No inserted response came back for enrollment ${r.enrollmentId}, question ${r.questionId} at ${r.timestamp}`);
+    }
+    return id;
+  });
+  recordRows(manifest, "responses", ...ids);
+
+  const links = responses.map(
+    (r, i) =>
+      sql`(${ids[i]}, ${r.assignmentQuestionId}, ${r.assignedAssignmentId}, ${r.timestamp}::timestamptz, ${r.timestamp}::timestamptz)`
+  );
+  await db.execute(
+    sql`INSERT INTO assignment_question_responses (response_id, assignment_question_id, assigned_assignment_id, created_at, updated_at)
+        VALUES ${sql.join(links, sql`, `)}
+        ON CONFLICT DO NOTHING`
+  );
+}
+
+// =============================================================================
+// DATABASE WRITER
+// =============================================================================
+
+/**
+ * Create a writer that executes INSERTs against db (the project database or an
+ * open transaction), batching events and responses batchSize rows at a time
+ * and recording every created ID in manifest.
+ */
+export function createDatabaseWriter(db: Database, batchSize: number, manifest: RunManifest): SeedWriter {
+  const events = createRowBuffer(batchSize, (rows: NewEvent[]) => insertEventBatch(db, manifest, rows));
+  const responses = createRowBuffer(batchSize, (rows: NewResponse[]) => insertResponseBatch(db, manifest, rows));
+
+  return {
+    async insertStudent(student) {
+      const { userId, email, firstName, lastName, displayName, groupId } = student;
+      const hasName = firstName !== null && lastName !== null;
+
+      // An existing user belongs to someone else (another run, or a real account):
+      // never enroll or record it as this run's
+      const userResult = await db.execute(
+        sql`INSERT INTO auth.users (id, email, raw_user_meta_data)
+            VALUES (${userId}, ${email}, ${JSON.stringify({ name: hasName ? displayName : undefined })}::jsonb)
+            ON CONFLICT (id) DO NOTHING
+            RETURNING id`
+      );
+      if (userResult.length === 0) {
+        throw new Error(`User ${userId} (${email}) already exists; refusing to enroll another run's student`);
+      }
+      recordRows(manifest, "auth.users", userId);
+
+      // Null first/last name for nameless students to exercise email fallback
+      const profileResult = hasName
+        ? await db.execute(
+            sql`INSERT INTO student_profiles (id, first_name, last_name, email)
+                VALUES (${userId}, ${firstName}, ${lastName}, ${email})
+                ON CONFLICT (id) DO NOTHING
+                RETURNING id`
+          )
+        : await db.execute(
+            sql`INSERT INTO student_profiles (id, email)
+                VALUES (${userId}, ${email})
+                ON CONFLICT (id) DO NOTHING
+                RETURNING id`
+          );
+      if (profileResult.length === 0) {
+        throw new Error(`Student profile ${userId} (${email}) already exists; refusing to enroll another run's student`);
+      }
+      recordRows(manifest, "student_profiles", userId);
+
+      const enrollmentResult = await db.execute(
+        sql`INSERT INTO enrollments (student_profile_id, group_id)
+            VALUES (${userId}, ${groupId})
+            ON CONFLICT DO NOTHING
+            RETURNING id, student_profile_id`
+      );
+      if (enrollmentResult.length === 0) return null;
+      const enrollmentId = (enrollmentResult[0] as { id: number }).id;
+      recordRows(manifest, "enrollments", enrollmentId);
+      return enrollmentId;
+    },
+
+    async insertAssignment(assignment) {
+      const result = await db.execute(
+        sql`INSERT INTO assignments (title, description, created_by, state, config)
+            VALUES (${assignment.title}, ${assignment.description}, ${assignment.createdBy}, 'active',
+                    ${JSON.stringify(assignment.config)}::jsonb)
+            RETURNING id`
+      );
+      const id = (result[0] as { id: number }).id;
+      recordRows(manifest, "assignments", id);
+      return id;
+    },
+
+    async linkAssignmentToModule(assignmentId, moduleId, order) {
+      await db.execute(
+        sql`INSERT INTO assignment_modules (assignment_id, module_id, "order")
+            VALUES (${assignmentId}, ${moduleId}, ${order})
+            ON CONFLICT DO NOTHING`
+      );
+    },
+
+    async insertPrerequisite(assignmentId, prereqAssignmentId) {
+      await db.execute(
+        sql`INSERT INTO assignment_prerequisites (assignment_id, type, prereq_assignment_id)
+            VALUES (${assignmentId}, 'podsie_assignment', ${prereqAssignmentId})
+            ON CONFLICT DO NOTHING`
+      );
+    },
+
+    async assignToGroup(assigned) {
+      const result = await db.execute(
+        sql`INSERT INTO assigned_assignments (assignment_id, group_id, launch_date, due_date)
+            VALUES (${assigned.assignmentId}, ${assigned.groupId}, ${assigned.launchDate}::timestamptz, ${assigned.dueDate}::timestamptz)
+            RETURNING id`
+      );
+      const id = (result[0] as { id: number }).id;
+      recordRows(manifest, "assigned_assignments", id);
+      return id;
+    },
+
+    async insertQuestion(content, createdBy) {
+      const result = await db.execute(
+        sql`INSERT INTO questions (question_content, created_by, state, config)
+            VALUES (${JSON.stringify(content)}::jsonb, ${createdBy}, 'active',
+                    ${JSON.stringify({ tutorMode: false })}::jsonb)
+            RETURNING id`
+      );
+      const id = (result[0] as { id: number }).id;
+      recordRows(manifest, "questions", id);
+      return id;
+    },
+
+    async insertKnowledgeComponent(name, questionId) {
+      const result = await db.execute(
+        sql`INSERT INTO knowledge_components (name, original_question_id, active_in_personal_review)
+            VALUES (${name}, ${questionId}, true)
+            RETURNING id`
+      );
+      const kcId = (result[0] as { id: number }).id;
+      recordRows(manifest, "knowledge_components", kcId);
+
+      await db.execute(
+        sql`UPDATE questions SET knowledge_component_id = ${kcId} WHERE id = ${questionId}`
+      );
+      return kcId;
+    },
+
+    async insertAssignmentQuestion(assignmentId, questionId, order) {
+      const result = await db.execute(
+        sql`INSERT INTO assignment_questions (assignment_id, question_id, "order")
+            VALUES (${assignmentId}, ${questionId}, ${order})
+            RETURNING id`
+      );
+      const id = (result[0] as { id: number }).id;
+      recordRows(manifest, "assignment_questions", id);
+      return id;
+    },
+
+    insertEvent: events.add,
+
+    insertResponse: responses.add,
+
+    async flush() {
+      await events.flush();
+      await responses.flush();
+    },
+  };
+}
@@ -4,126 +4,194 @@
  * Creates comprehensive test data for the Teacher Sandbox dashboards
  * (lesson progress, velocity, assessments, pacing).
  *
- * ONLY runs against local database (localhost/127.0.0.1).
+ * ONLY runs against a local database: see seed/safety.ts for the host/port
+ * allowlist. Deleting earlier runs asks for confirmation unless --yes is passed.
  *
- * Usage: ~/.claude/skills/seed-sandbox-data/run.sh
+ * Usage: ~/.claude/skills/seed-sandbox-data/run.sh [seed] [--groups 1,3] [--modules 10,11]
+ *          [--students 13] [--days 45] [--teacher <email>]
+ *          [--seed <n>] [--as-of <datetime>] [--batch-size <n>] [--dry-run [--format text|json]]
+ *          [--only <phases>] [--skip <phases>] [--yes]
+ *          [--success-assessment [--title <title>]]
+ *        run.sh advance [--groups 1,3] [--modules 10,11] [--seed <n>] [--as-of <datetime>]
+ *        run.sh assessment [--groups 1,3] [--modules 10] [--title <title>] [--seed <n>]
+ *        run.sh verify [--groups 1,3] [--modules 10,11]
+ *        run.sh export --file <path> [--groups 1,3]
+ *        run.sh import --file <path> [--groups 1,3] [--modules 10,11] [--teacher <email>] [--yes]
+ *        run.sh list-runs
+ *        run.sh cleanup --run <id> | --legacy [--groups 1,3] [--yes]
  *
  * Structure:
  * - seed/config.ts    - Configuration, types, and date utilities
+ * - seed/cli.ts       - Command-line parsing into a validated config
+ * - seed/safety.ts    - Local-database guard and cleanup confirmation
+ * - seed/writer.ts    - Database writer every insert goes through
+ * - seed/plan.ts      - Dry-run planner (records inserts instead of writing)
+ * - seed/phases.ts    - Named pipeline phases for --only/--skip
+ * - seed/manifest.ts  - Per-run manifest of created row IDs
  * - seed/verify.ts    - Teacher, group, module verification
- * - seed/cleanup.ts   - Cleanup of old seed data
+ * - seed/cleanup.ts   - Manifest-based (and legacy pattern) cleanup
  * - seed/students.ts  - Student creation
  * - seed/lessons.ts   - Lesson and mastery check creation
- * - seed/events.ts    - Progress event generation
- * - seed/assessments.ts - Assessment creation and responses
+ * - seed/events.ts    - Progress event generation (plan, then write)
+ * - seed/eventPlanner.ts - Pure event scheduling (no database)
+ * - seed/eventWriter.ts  - Persists planned event records
+ * - seed/advance.ts   - Appends one more school day to seeded groups
+ * - seed/invariants.ts - Post-seed consistency checks (run.sh verify)
+ * - seed/fixtures.ts  - Export/import of recorded runs as portable JSON fixtures
+ * - seed/assessments.ts - Assessment creation and responses (incl. success profiles)
  */
 
 import {
-  CONFIG,
+  createSeedContext,
+  runInTransaction,
+  type SeedContext,
+  type Group,
   type LessonData,
+  type MasteryCheckCompletion,
+  type AssignmentCompletedRecord,
+  DEFAULT_SUCCESS_ASSESSMENT_TITLE,
   type ModuleLessonData,
   type Enrollment,
+  type Teacher,
+  type ReplacedRuns,
+  type RewardGoals,
+  type SeedPhase,
+  resolvePhases,
+  enterPhase,
+  scratchContext,
   verifyTeacher,
   verifyGroups,
   verifyOrCreateModules,
-  cleanupSandboxData,
+  cleanupRun,
+  cleanupRunsForGroups,
+  cleanupLegacySeedData,
+  findRunsForGroups,
+  findRunsToReplace,
+  assertLocalDatabase,
+  confirmDestructive,
+  listManifests,
+  loadManifest,
+  saveManifest,
+  deleteManifest,
+  countRows,
+  getRunsDir,
   cleanupPacingData,
   createPacingConfigs,
   seedStudentsForGroup,
+  loadStudentsForGroup,
   createAllLessonsForModule,
+  loadLessonsForModule,
+  moduleKcIds,
   seedProgressEventsForGroup,
   seedStandaloneLessonEvents,
   seedDetailedProgressForFirstLesson,
   seedPointsEvents,
+  loadRewardGoals,
   seedAttendanceEvents,
+  loadGroupAttendance,
+  advanceGroupOneDay,
+  checkGroupInvariants,
+  reportViolations,
+  type Violation,
+  exportFixture,
+  importFixture,
+  saveFixture,
+  loadFixture,
   createAssessments,
   assignAssessmentsToGroup,
   seedAssessmentResponses,
   updateExistingResponses,
+  seedSuccessProfileAssessments,
+  placeholderTeacher,
+  placeholderGroups,
+  formatPlanText,
   createCanvasAssignments,
   seedCanvasResponses,
+  classScheduleFor,
+  parseCliArgs,
+  USAGE,
+  assertSchoolDaysInWindow,
+  type CliOptions,
 } from "./seed";
 
-console.log("Using project database connection\n");
+async function seedSandboxData(ctx: SeedContext, yes: boolean) {
+  const { config } = ctx;
 
-async function seedSandboxData() {
-  console.log("Starting comprehensive sandbox data seed...\n");
-
-  // 1. Verify teacher and groups
-  const teacher = await verifyTeacher();
-  const groups = await verifyGroups();
-
-  // 2. Verify or create modules
-  const moduleIds = await verifyOrCreateModules(teacher);
-
-  // 3. Clean up existing sandbox data (local DB + external pacing API)
-  await cleanupSandboxData(CONFIG.GROUP_IDS, moduleIds[0]);
-  await cleanupPacingData();
-
-  // Store lessons by module and enrollments for each group
-  const allLessonsByModule = new Map<number, ModuleLessonData[]>();
-  const allEnrollments = new Map<number, Enrollment[]>();
-
-  // 4. Process each group
-  for (let groupIndex = 0; groupIndex < groups.length; groupIndex++) {
-    const group = groups[groupIndex];
-
-    console.log(`\n${"=".repeat(60)}`);
-    console.log(`Processing group: ${group.group_name} (ID: ${group.id})`);
-    console.log("=".repeat(60));
+  // JSON plans own stdout; progress output moves to stderr
+  const printResult = console.log;
+  if (config.DRY_RUN && config.PLAN_FORMAT === "json") {
+    console.log = console.error;
+  }
 
-    // Get/create students (pass groupIndex for unique names per group)
-    const enrollments = await seedStudentsForGroup(group.id, group.group_name, groupIndex);
-    allEnrollments.set(group.id, enrollments);
+  console.log(
+    config.DRY_RUN
+      ? "Dry run: planning only, nothing will be written\n"
+      : "Using project database connection\n",
+  );
+  console.log("Starting comprehensive sandbox data seed...\n");
+  console.log(`Random seed: ${ctx.random.seed} (pass --seed ${ctx.random.seed} to reproduce)`);
+  console.log(`Calendar: ${config.CALENDAR_FILE ?? "weekdays"} (${ctx.calendar.describe()})`);
+  console.log(`School timezone: ${config.SCHOOL_TIMEZONE}`);
+  console.log(`As of: ${ctx.clock.now().toISOString()}${ctx.clock.pinned ? " (pinned via --as-of)" : ""}`);
+  console.log(`Phases: ${config.PHASES.join(", ")}\n`);
+  assertSchoolDaysInWindow(ctx.calendar, config.DAYS_TO_SEED);
 
-    // Create all lessons for each module (standalone + paired with mastery checks)
-    const moduleLessonData: ModuleLessonData[] = [];
-    for (const moduleId of moduleIds) {
-      const lessonData = await createAllLessonsForModule(
-        group.id,
-        moduleId,
-        teacher,
+  // Deleting earlier runs can't be undone: confirm before the transaction opens
+  if (!config.DRY_RUN && config.PHASES.includes("cleanup")) {
+    const replacing = findRunsToReplace(config.GROUP_IDS);
+    if (replacing.length > 0) {
+      const phases = resolvePhases(config.PHASES);
+      await confirmDestructive(
+        `delete ${phases.partial ? `the ${phases.replace.join(", ")} rows` : "all rows"} of ` +
+          `${replacing.length} earlier run(s) for groups ${config.GROUP_IDS.join(",")} ` +
+          `(${replacing.map((m) => m.runId).join(", ")})`,
+        yes,
       );
-      moduleLessonData.push(lessonData);
     }
-    allLessonsByModule.set(group.id, moduleLessonData);
-
-    // Seed completion events for standalone (ramp-up) lessons - all students complete these
-    const standaloneLessonsByModule = moduleLessonData.map(m => m.standaloneLessons);
-    await seedStandaloneLessonEvents(group.id, enrollments, standaloneLessonsByModule);
-
-    // Create progress events spread across days (modules completed sequentially)
-    const pairedLessonsByModule: LessonData[][] = moduleLessonData.map(m => m.pairedLessons);
-    await seedProgressEventsForGroup(
-      group.id,
-      group.group_name,
-      enrollments,
-      pairedLessonsByModule,
-    );
+  }
 
-    // Add detailed progress with today/yesterday timestamps for dashboard variety
-    // Use the LAST paired lesson from the LAST module (most recent work)
-    const lastModulePairedLessons = pairedLessonsByModule[pairedLessonsByModule.length - 1];
-    if (lastModulePairedLessons && lastModulePairedLessons.length > 0) {
-      const lastLesson = lastModulePairedLessons[lastModulePairedLessons.length - 1];
-      await seedDetailedProgressForFirstLesson(
-        group.id,
-        enrollments,
-        lastLesson,
-      );
+  // Steps 1-9 run in one transaction: if anything fails, the local database
+  // is left exactly as it was before the run
+  let seeded: SeededData;
+  try {
+    seeded = await runInTransaction(ctx, seedDatabase);
+  } catch (err) {
+    if (!config.DRY_RUN) {
+      console.error("\nRolled back: the local database is unchanged by this run.");
     }
+    throw err;
+  }
+  const { groups, moduleIds, allEnrollments, allLessonsByModule, rewardGoals } = seeded;
 
-    // Seed points events for this group
-    await seedPointsEvents(group.id, enrollments);
-
-    // Seed attendance events (mark ~75% of students present for today)
-    await seedAttendanceEvents(group.id, enrollments);
+  // Committed: record this run and update the runs it replaced
+  if (!config.DRY_RUN) {
+    const file = saveManifest(ctx.manifest);
+    seeded.replaced.removed.forEach(deleteManifest);
+    seeded.replaced.trimmed.forEach(saveManifest);
+    console.log(`\nRecorded run ${ctx.manifest.runId} (${countRows(ctx.manifest)} rows) in ${file}`);
   }
 
-  // 4b. Create pacing configs in AI Coaching Platform for each module
+  // 10. Replace pacing configs in AI Coaching Platform for each module.
+  // External API calls can't be rolled back, so they only run after commit.
+  const runPacing = config.PHASES.includes("pacing");
+  if (runPacing) {
+    await cleanupPacingData(ctx);
+  }
+  // A reward scenario's goals come from the groups' balances: read them back
+  // for groups the points phase didn't just seed
+  if (runPacing && config.REWARD_SCENARIO !== null) {
+    for (const groupId of config.GROUP_IDS) {
+      if (rewardGoals.has(groupId)) continue;
+      if (config.DRY_RUN) {
+        console.log(`   No points planned for group ${groupId}; its pacing config gets the default goals`);
+      } else {
+        rewardGoals.set(groupId, await loadRewardGoals(ctx, groupId, config.REWARD_SCENARIO));
+      }
+    }
+  }
   // Use first group's lesson data as reference (all groups have same structure)
-  const firstGroupLessons = allLessonsByModule.get(CONFIG.GROUP_IDS[0]);
-  if (firstGroupLessons) {
+  const firstGroupLessons = allLessonsByModule.get(config.GROUP_IDS[0]);
+  if (runPacing && firstGroupLessons) {
     for (let moduleIndex = 0; moduleIndex < moduleIds.length; moduleIndex++) {
       const moduleId = moduleIds[moduleIndex];
       const moduleLessonData = firstGroupLessons[moduleIndex];
@@ -142,93 +210,651 @@ async function seedSandboxData() {
         })),
       ];
 
-      await createPacingConfigs(CONFIG.GROUP_IDS, moduleId, lessonsForPacing);
+      await createPacingConfigs(ctx, config.GROUP_IDS, moduleId, lessonsForPacing, rewardGoals);
     }
   }
+  if (!config.DRY_RUN && ctx.manifest.pacing.length > 0) {
+    saveManifest(ctx.manifest);
+  }
 
-  // 5. Create assessments - ONE PER MODULE, in order
-  // Assessments are completed sequentially: all module 1 assessments, then module 2, etc.
-  const firstGroupId = CONFIG.GROUP_IDS[0];
-  const allAssessments: { moduleIndex: number; assessments: Awaited<ReturnType<typeof createAssessments>> }[] = [];
+  // 11. Dry run: print the plan instead of the summary, then check it against
+  // verify's invariants when the run planned its own students, lessons, events and attendance
+  if (ctx.plan) {
+    const plan = ctx.plan.buildPlan({ randomSeed: ctx.random.seed, asOf: ctx.clock.now() });
+    printResult(config.PLAN_FORMAT === "json" ? JSON.stringify(plan, null, 2) : "\n" + formatPlanText(plan));
 
-  for (let moduleIndex = 0; moduleIndex < moduleIds.length; moduleIndex++) {
-    const moduleId = moduleIds[moduleIndex];
-    console.log(`\nCreating assessment for module ${moduleIndex + 1} (ID: ${moduleId})...`);
-    const assessments = await createAssessments(
-      firstGroupId,
-      moduleId,
-      teacher,
-      moduleIndex, // Pass module index for sequential naming
-    );
-    allAssessments.push({ moduleIndex, assessments });
+    const phases = resolvePhases(config.PHASES);
+    if (PLAN_CHECK_PHASES.every((phase) => phases.run.has(phase))) {
+      const violations: Violation[] = [];
+      for (const group of groups) {
+        violations.push(
+          ...(await checkGroupInvariants(ctx, group, allEnrollments.get(group.id) ?? [], allLessonsByModule.get(group.id) ?? [])),
+        );
+      }
+      reportViolations(violations);
+      if (violations.length > 0) {
+        console.error(`\nPlan check failed: ${violations.length} violation(s) in groups ${config.GROUP_IDS.join(",")}`);
+        process.exit(1);
+      }
+    }
+    process.exit(0);
   }
 
-  // 6. Simulate assessment responses for first group (sequentially by module)
-  for (const { moduleIndex, assessments } of allAssessments) {
-    await seedAssessmentResponses(firstGroupId, assessments, moduleIndex, moduleIds.length);
-  }
+  // 12. Print summary
+  console.log("\n" + "=".repeat(60));
+  console.log("Sandbox data seed complete!");
+  console.log("=".repeat(60));
+  console.log(`\nView lessons at: /teacher/sandbox/lessonProgress`);
+  console.log(
+    `View velocity at: /teacher/sandbox/velocity?groupIds=${config.GROUP_IDS.join(",")}`,
+  );
+  console.log(`View assessments at: /teacher/sandbox/assessmentData`);
+  console.log(`View AI feedback at: /teacher/sandbox/aiFeedback`);
+  console.log(`\nGroups: ${groups.map((g) => g.group_name).join(", ")}`);
+  console.log(`Module IDs: ${moduleIds.join(", ")}`);
+  console.log(`Students per group: ${config.STUDENTS_TO_CREATE}`);
+  console.log(
+    `Standalone lessons per module: ${config.STANDALONE_LESSONS_TO_CREATE}`,
+  );
+  console.log(
+    `Paired lessons per module: ${config.LESSONS_TO_CREATE} (each with mastery check)`,
+  );
+  console.log(`Questions per lesson: ${config.QUESTIONS_PER_LESSON}`);
+  console.log(`Days of data: ${config.DAYS_TO_SEED}`);
+  console.log(`Run ID: ${ctx.manifest.runId} (undo with: run.sh cleanup --run ${ctx.manifest.runId})`);
+  console.log(`Random seed: ${ctx.random.seed}`);
+  console.log(`As of: ${ctx.clock.now().toISOString()}\n`);
 
-  // 7. Assign same assessments to remaining groups and seed responses
-  for (let i = 1; i < CONFIG.GROUP_IDS.length; i++) {
-    const groupId = CONFIG.GROUP_IDS[i];
-    console.log(`\n${"=".repeat(60)}`);
-    console.log(`Assigning assessments to group ID: ${groupId}`);
-    console.log("=".repeat(60));
+  process.exit(0);
+}
 
-    for (const { moduleIndex, assessments } of allAssessments) {
-      const groupAssessments = await assignAssessmentsToGroup(assessments, groupId);
-      await seedAssessmentResponses(groupId, groupAssessments, moduleIndex, moduleIds.length);
+/** Phases whose rows the dry-run plan check reads (skipping any leaves it nothing to check) */
+const PLAN_CHECK_PHASES: SeedPhase[] = ["students", "lessons", "events", "attendance"];
+
+interface SeededData {
+  /** Earlier runs cleaned up (entirely, or just the replaced phases) in this transaction */
+  replaced: ReplacedRuns;
+  groups: Group[];
+  moduleIds: number[];
+  allEnrollments: Map<number, Enrollment[]>;
+  allLessonsByModule: Map<number, ModuleLessonData[]>;
+  /** Pacing goals for each group the points phase landed on a reward scenario */
+  rewardGoals: Map<number, RewardGoals>;
+}
+
+/**
+ * Every local-database phase of the run (steps 1-9). Phases left out by
+ * --only/--skip are skipped; students and lessons they would have created are
+ * loaded from the database when a later phase needs them.
+ */
+async function seedDatabase(ctx: SeedContext): Promise<SeededData> {
+  const { config } = ctx;
+  const phases = resolvePhases(config.PHASES);
+
+  // 1. Verify teacher and groups (dry runs never query the database)
+  const teacher = config.DRY_RUN ? placeholderTeacher(config) : await verifyTeacher(ctx);
+  const groups = config.DRY_RUN ? placeholderGroups(config) : await verifyGroups(ctx);
+
+  // 2. Verify or create modules
+  const moduleIds = config.DRY_RUN ? config.MODULE_IDS : await verifyOrCreateModules(ctx, teacher);
+
+  // 3. Clean up earlier runs for these groups (pacing is cleaned up after commit).
+  // A partial run replaces only its phases' rows and the rows that depend on them.
+  let replaced: ReplacedRuns = { removed: [], trimmed: [] };
+  if (phases.run.has("cleanup")) {
+    await enterPhase(ctx, "cleanup");
+    if (phases.partial) {
+      console.log(`\nReplacing rows from earlier runs for: ${phases.replace.join(", ")}`);
+    }
+    if (!config.DRY_RUN) {
+      replaced = await cleanupRunsForGroups(ctx, config.GROUP_IDS, phases.partial ? phases.replace : null);
     }
   }
 
-  // 8. Create Canvas assignments with AI feedback for each group/module
+  // Store lessons by module and enrollments for each group
+  const allLessonsByModule = new Map<number, ModuleLessonData[]>();
+  const allEnrollments = new Map<number, Enrollment[]>();
+  const rewardGoals = new Map<number, RewardGoals>();
+
+  // 4. Process each group
   for (let groupIndex = 0; groupIndex < groups.length; groupIndex++) {
     const group = groups[groupIndex];
+
     console.log(`\n${"=".repeat(60)}`);
-    console.log(`Creating Canvas AI feedback for group: ${group.group_name}`);
+    console.log(`Processing group: ${group.group_name} (ID: ${group.id})`);
+    console.log(`Class period: ${classScheduleFor(config, ctx.clock, group.id).describe()}`);
     console.log("=".repeat(60));
 
+    // Get/create students (pass groupIndex for unique names per group)
+    let enrollments: Enrollment[] = [];
+    if (phases.run.has("students")) {
+      await enterPhase(ctx, "students");
+      enrollments = await seedStudentsForGroup(ctx, group.id, group.group_name, groupIndex);
+    } else if (phases.load.has("students")) {
+      enrollments = await loadStudents(ctx, group, groupIndex);
+    }
+    allEnrollments.set(group.id, enrollments);
+
+    // Create all lessons for each module (standalone + paired with mastery checks)
+    const moduleLessonData: ModuleLessonData[] = [];
+    if (phases.run.has("lessons")) {
+      await enterPhase(ctx, "lessons");
+      for (const moduleId of moduleIds) {
+        const lessonData = await createAllLessonsForModule(
+          ctx,
+          group.id,
+          moduleId,
+          teacher,
+        );
+        moduleLessonData.push(lessonData);
+      }
+    } else if (phases.load.has("lessons")) {
+      for (const moduleId of moduleIds) {
+        moduleLessonData.push(await loadLessons(ctx, group.id, moduleId, teacher));
+      }
+    }
+    allLessonsByModule.set(group.id, moduleLessonData);
+
+    // Mastery checks completed by this run's progress events, for the points phase
+    let masteryCheckCompletions: MasteryCheckCompletion[] | null = null;
+
+    if (phases.run.has("events")) {
+      await enterPhase(ctx, "events");
+      masteryCheckCompletions = await seedGroupProgress(ctx, group, enrollments, moduleLessonData);
+    } else if (config.DRY_RUN && (phases.run.has("points") || phases.run.has("attendance"))) {
+      // Dry runs can't read existing progress back, so points and attendance
+      // follow unrecorded stand-ins (which also mark the students' active days),
+      // or none when the run doesn't load lessons
+      masteryCheckCompletions = moduleLessonData.length > 0
+        ? await seedGroupProgress(scratchContext(ctx), group, enrollments, moduleLessonData)
+        : [];
+    }
+
+    // Without the events phase, read the group's activity (and its attendance
+    // marks, unless they are being replaced) back first, so points and
+    // attendance land on the days the database already has students present
+    if (!phases.run.has("events") && !config.DRY_RUN && (phases.run.has("points") || phases.run.has("attendance"))) {
+      await loadGroupAttendance(ctx, group.id, enrollments, !phases.run.has("attendance"));
+    }
+
+    // Seed points events for this group
+    if (phases.run.has("points")) {
+      await enterPhase(ctx, "points");
+      const goals = await seedPointsEvents(
+        ctx,
+        group,
+        enrollments,
+        moduleLessonData.flatMap((m) => m.pairedLessons),
+        teacher,
+        masteryCheckCompletions
+      );
+      if (goals) rewardGoals.set(group.id, goals);
+    }
+
+    // Seed attendance events (every school day, matching the students' activity)
+    if (phases.run.has("attendance")) {
+      await enterPhase(ctx, "attendance");
+      await seedAttendanceEvents(ctx, group.id, enrollments, teacher);
+    }
+  }
+
+  if (phases.run.has("assessments")) {
+    await enterPhase(ctx, "assessments");
+
+    // 5. Create assessments - ONE PER MODULE, in order
+    // Assessments are completed sequentially: all module 1 assessments, then module 2, etc.
+    const firstGroupId = config.GROUP_IDS[0];
+    const allAssessments: { moduleIndex: number; assessments: Awaited<ReturnType<typeof createAssessments>> }[] = [];
+
     for (let moduleIndex = 0; moduleIndex < moduleIds.length; moduleIndex++) {
       const moduleId = moduleIds[moduleIndex];
-      const canvasAssignments = await createCanvasAssignments(
-        group.id,
+      console.log(`\nCreating assessment for module ${moduleIndex + 1} (ID: ${moduleId})...`);
+      const assessments = await createAssessments(
+        ctx,
+        firstGroupId,
         moduleId,
         teacher,
+        moduleIndex, // Pass module index for sequential naming
+      );
+      allAssessments.push({ moduleIndex, assessments });
+    }
+
+    // 6. Simulate assessment responses for first group (sequentially by module)
+    for (const { moduleIndex, assessments } of allAssessments) {
+      await seedAssessmentResponses(
+        ctx,
+        firstGroupId,
+        allEnrollments.get(firstGroupId)!,
+        assessments,
+        moduleKcIds(allLessonsByModule.get(firstGroupId)![moduleIndex]),
+        moduleIndex,
+        moduleIds.length
+      );
+    }
+
+    // 7. Assign same assessments to remaining groups and seed responses
+    for (let i = 1; i < config.GROUP_IDS.length; i++) {
+      const groupId = config.GROUP_IDS[i];
+      console.log(`\n${"=".repeat(60)}`);
+      console.log(`Assigning assessments to group ID: ${groupId}`);
+      console.log("=".repeat(60));
+
+      for (const { moduleIndex, assessments } of allAssessments) {
+        const groupAssessments = await assignAssessmentsToGroup(ctx, assessments, groupId);
+        await seedAssessmentResponses(
+          ctx,
+          groupId,
+          allEnrollments.get(groupId)!,
+          groupAssessments,
+          moduleKcIds(allLessonsByModule.get(groupId)![moduleIndex]),
+          moduleIndex,
+          moduleIds.length
+        );
+      }
+    }
+
+    // 7b. Optional success-profile assessment (--success-assessment)
+    if (config.SUCCESS_ASSESSMENT_TITLE !== null) {
+      await seedSuccessProfileAssessments(
+        ctx,
+        groups,
+        moduleIds,
+        teacher,
+        allEnrollments,
+        config.SUCCESS_ASSESSMENT_TITLE,
       );
-      await seedCanvasResponses(group.id, canvasAssignments, moduleIndex);
     }
   }
 
-  // 9. Update existing responses
-  await updateExistingResponses();
+  // 8. Create Canvas assignments with AI feedback for each group/module
+  if (phases.run.has("canvas")) {
+    await enterPhase(ctx, "canvas");
+    for (let groupIndex = 0; groupIndex < groups.length; groupIndex++) {
+      const group = groups[groupIndex];
+      console.log(`\n${"=".repeat(60)}`);
+      console.log(`Creating Canvas AI feedback for group: ${group.group_name}`);
+      console.log("=".repeat(60));
 
-  // 10. Print summary
-  console.log("\n" + "=".repeat(60));
-  console.log("Sandbox data seed complete!");
-  console.log("=".repeat(60));
-  console.log(`\nView lessons at: /teacher/sandbox/lessonProgress`);
-  console.log(
-    `View velocity at: /teacher/sandbox/velocity?groupIds=${CONFIG.GROUP_IDS.join(",")}`,
-  );
-  console.log(`View assessments at: /teacher/sandbox/assessmentData`);
-  console.log(`View AI feedback at: /teacher/sandbox/aiFeedback`);
-  console.log(`\nGroups: ${groups.map((g) => g.group_name).join(", ")}`);
-  console.log(`Module IDs: ${moduleIds.join(", ")}`);
-  console.log(`Students per group: ${CONFIG.STUDENTS_TO_CREATE}`);
-  console.log(
-    `Standalone lessons per module: ${CONFIG.STANDALONE_LESSONS_TO_CREATE}`,
+      for (let moduleIndex = 0; moduleIndex < moduleIds.length; moduleIndex++) {
+        const moduleId = moduleIds[moduleIndex];
+        const canvasAssignments = await createCanvasAssignments(
+          ctx,
+          group.id,
+          moduleId,
+          teacher,
+        );
+        await seedCanvasResponses(ctx, group.id, allEnrollments.get(group.id)!, canvasAssignments, moduleIndex);
+      }
+    }
+  }
+
+  // 9. Update existing responses (enterPhase flushes, so this run's rows are included)
+  if (phases.run.has("backfill")) {
+    await enterPhase(ctx, "backfill");
+    await updateExistingResponses(ctx);
+  }
+
+  return { replaced, groups, moduleIds, allEnrollments, allLessonsByModule, rewardGoals };
+}
+
+/**
+ * Seed a group's lesson progress: ramp-up lesson completions, progress across
+ * the window, and detailed today/yesterday progress on the latest lesson.
+ *
+ * @returns The mastery check completions, for the points phase
+ */
+async function seedGroupProgress(
+  ctx: SeedContext,
+  group: Group,
+  enrollments: Enrollment[],
+  moduleLessonData: ModuleLessonData[],
+): Promise<MasteryCheckCompletion[]> {
+  // Seed completion events for standalone (ramp-up) lessons - all students complete these
+  const standaloneLessonsByModule = moduleLessonData.map(m => m.standaloneLessons);
+  await seedStandaloneLessonEvents(ctx, group.id, enrollments, standaloneLessonsByModule);
+
+  // The LAST paired lesson from the LAST module (most recent work) gets
+  // detailed today/yesterday progress instead of window progress
+  const pairedLessonsByModule: LessonData[][] = moduleLessonData.map(m => m.pairedLessons);
+  const lastModulePairedLessons = pairedLessonsByModule[pairedLessonsByModule.length - 1];
+  const lastLesson = lastModulePairedLessons?.[lastModulePairedLessons.length - 1];
+  const windowLessonsByModule = pairedLessonsByModule.map((lessons) => lessons.filter((l) => l !== lastLesson));
+
+  // Create progress events spread across days (modules completed sequentially)
+  const progressRecords = await seedProgressEventsForGroup(
+    ctx,
+    group.id,
+    group.group_name,
+    enrollments,
+    windowLessonsByModule,
   );
-  console.log(
-    `Paired lessons per module: ${CONFIG.LESSONS_TO_CREATE} (each with mastery check)`,
+
+  // Add detailed progress with today/yesterday timestamps for dashboard variety
+  const detailedRecords = lastLesson
+    ? await seedDetailedProgressForFirstLesson(ctx, group.id, enrollments, lastLesson)
+    : [];
+
+  return [...progressRecords, ...detailedRecords].filter(
+    (r): r is AssignmentCompletedRecord => r.type === "ASSIGNMENT_COMPLETED"
   );
-  console.log(`Questions per lesson: ${CONFIG.QUESTIONS_PER_LESSON}`);
-  console.log(`Days of data: ${CONFIG.DAYS_TO_SEED}\n`);
+}
+
+/**
+ * Students for a run that skips the students phase: the group's existing
+ * students, or unrecorded stand-ins on dry runs.
+ */
+async function loadStudents(ctx: SeedContext, group: Group, groupIndex: number): Promise<Enrollment[]> {
+  return ctx.config.DRY_RUN
+    ? seedStudentsForGroup(scratchContext(ctx), group.id, group.group_name, groupIndex)
+    : loadStudentsForGroup(ctx, group.id, group.group_name);
+}
+
+/**
+ * Lessons for a run that skips the lessons phase: the module's existing
+ * lessons, or unrecorded stand-ins on dry runs.
+ */
+async function loadLessons(
+  ctx: SeedContext,
+  groupId: number,
+  moduleId: number,
+  teacher: Teacher,
+): Promise<ModuleLessonData> {
+  return ctx.config.DRY_RUN
+    ? createAllLessonsForModule(scratchContext(ctx), groupId, moduleId, teacher)
+    : loadLessonsForModule(ctx, groupId, moduleId);
+}
+
+// =============================================================================
+// advance: one more school day
+// =============================================================================
+
+/**
+ * Append the next school day of activity to every group, in one transaction,
+ * continuing from the students and lessons already in the database.
+ */
+async function advanceSandbox(ctx: SeedContext): Promise<void> {
+  const { config } = ctx;
+  console.log("Using project database connection\n");
+  console.log(`Random seed: ${ctx.random.seed} (pass --seed ${ctx.random.seed} to reproduce)`);
+  console.log(`Calendar: ${config.CALENDAR_FILE ?? "weekdays"} (${ctx.calendar.describe()})`);
+  console.log(`School timezone: ${config.SCHOOL_TIMEZONE}`);
+  console.log(`As of: ${ctx.clock.now().toISOString()}${ctx.clock.pinned ? " (pinned via --as-of)" : ""}\n`);
+
+  let advanced = 0;
+  try {
+    await runInTransaction(ctx, async (txCtx) => {
+      const teacher = await verifyTeacher(txCtx);
+      const groups = await verifyGroups(txCtx);
+      for (const group of groups) {
+        const enrollments = await loadStudentsForGroup(txCtx, group.id, group.group_name);
+        const lessonsByModule: LessonData[][] = [];
+        for (const moduleId of config.MODULE_IDS) {
+          lessonsByModule.push((await loadLessonsForModule(txCtx, group.id, moduleId)).pairedLessons);
+        }
+        if (await advanceGroupOneDay(txCtx, group, teacher, enrollments, lessonsByModule)) {
+          advanced++;
+        }
+      }
+    });
+  } catch (err) {
+    console.error("\nRolled back: the local database is unchanged by this run.");
+    throw err;
+  }
+
+  if (advanced === 0) {
+    console.log("\nNothing to advance");
+    return;
+  }
+
+  const file = saveManifest(ctx.manifest);
+  console.log(`\nRecorded run ${ctx.manifest.runId} (${countRows(ctx.manifest)} rows) in ${file}`);
+  console.log(`Advanced ${advanced} group(s) by one school day (undo with: run.sh cleanup --run ${ctx.manifest.runId})`);
+}
+
+// =============================================================================
+// assessment: success-profile assessment
+// =============================================================================
+
+/**
+ * Add a success-profile assessment to every module for the students already
+ * in each group, in one transaction, recorded as a run like any other.
+ */
+async function addSuccessAssessment(ctx: SeedContext): Promise<void> {
+  const { config } = ctx;
+  const title = config.SUCCESS_ASSESSMENT_TITLE ?? DEFAULT_SUCCESS_ASSESSMENT_TITLE;
+  console.log("Using project database connection\n");
+  console.log(`Random seed: ${ctx.random.seed} (pass --seed ${ctx.random.seed} to reproduce)`);
+  console.log(`Calendar: ${config.CALENDAR_FILE ?? "weekdays"} (${ctx.calendar.describe()})`);
+  console.log(`School timezone: ${config.SCHOOL_TIMEZONE}`);
+  console.log(`As of: ${ctx.clock.now().toISOString()}${ctx.clock.pinned ? " (pinned via --as-of)" : ""}\n`);
+
+  try {
+    await runInTransaction(ctx, async (txCtx) => {
+      const teacher = await verifyTeacher(txCtx);
+      const groups = await verifyGroups(txCtx);
+      const enrollmentsByGroup = new Map<number, Enrollment[]>();
+      for (const group of groups) {
+        enrollmentsByGroup.set(group.id, await loadStudentsForGroup(txCtx, group.id, group.group_name));
+      }
+
+      await enterPhase(txCtx, "assessments");
+      await seedSuccessProfileAssessments(txCtx, groups, config.MODULE_IDS, teacher, enrollmentsByGroup, title);
+    });
+  } catch (err) {
+    console.error("\nRolled back: the local database is unchanged by this run.");
+    throw err;
+  }
+
+  const file = saveManifest(ctx.manifest);
+  console.log(`\nRecorded run ${ctx.manifest.runId} (${countRows(ctx.manifest)} rows) in ${file}`);
+  console.log(`Created "${title}" in modules ${config.MODULE_IDS.join(", ")} (undo with: run.sh cleanup --run ${ctx.manifest.runId})`);
+  console.log(`View assessments at: /teacher/sandbox/assessmentData`);
+}
+
+// =============================================================================
+// verify: post-seed invariants
+// =============================================================================
+
+/**
+ * Check every group's seeded data against the seeder's invariants.
+ * Exits 1 if anything is violated.
+ */
+async function verifySandbox(ctx: SeedContext): Promise<void> {
+  const { config } = ctx;
+  console.log("Using project database connection\n");
+
+  const violations: Violation[] = [];
+  const groups = await verifyGroups(ctx);
+  for (const group of groups) {
+    const enrollments = await loadStudentsForGroup(ctx, group.id, group.group_name);
+    const moduleLessons: ModuleLessonData[] = [];
+    for (const moduleId of config.MODULE_IDS) {
+      moduleLessons.push(await loadLessonsForModule(ctx, group.id, moduleId));
+    }
+    violations.push(...(await checkGroupInvariants(ctx, group, enrollments, moduleLessons)));
+  }
+
+  reportViolations(violations);
+  if (violations.length > 0) {
+    console.error(`\nVerification failed: ${violations.length} violation(s) in groups ${config.GROUP_IDS.join(",")}`);
+    process.exit(1);
+  }
+  console.log(`\nAll invariants hold for groups ${config.GROUP_IDS.join(",")}`);
+}
+
+// =============================================================================
+// export / import: portable fixtures
+// =============================================================================
+
+/**
+ * Write every row recorded by runs for the configured groups to a fixture file.
+ */
+async function exportSandbox(ctx: SeedContext, file: string): Promise<void> {
+  const runs = findRunsForGroups(ctx.config.GROUP_IDS);
+  if (runs.length === 0) {
+    console.error(`No recorded runs for groups ${ctx.config.GROUP_IDS.join(",")} (see: run.sh list-runs)`);
+    process.exit(1);
+  }
+
+  console.log(`Exporting ${runs.length} run(s): ${runs.map((m) => m.runId).join(", ")}`);
+  const fixture = await exportFixture(ctx, runs);
+  saveFixture(fixture, file);
+  console.log(`\nWrote fixture version ${fixture.version} to ${file}`);
+  console.log(`Restore with: run.sh import --file ${file} --groups <ids> --modules <ids>`);
+}
+
+/**
+ * Load a fixture into the configured groups and modules in one transaction,
+ * replacing earlier runs for those groups, and record it as a run.
+ */
+async function importSandbox(ctx: SeedContext, file: string, yes: boolean): Promise<void> {
+  const { config } = ctx;
+  const fixture = loadFixture(file);
+  console.log(`Importing fixture exported ${fixture.exportedAt} (runs ${fixture.source.runIds.join(", ")})`);
+  console.log(`Source groups ${fixture.source.groupIds.join(",")} -> ${config.GROUP_IDS.join(",")}, ` +
+    `modules ${fixture.source.moduleIds.join(",")} -> ${config.MODULE_IDS.join(",")}\n`);
+
+  const replacing = findRunsToReplace(config.GROUP_IDS);
+  if (replacing.length > 0) {
+    await confirmDestructive(
+      `delete all rows of ${replacing.length} earlier run(s) for groups ${config.GROUP_IDS.join(",")} ` +
+        `(${replacing.map((m) => m.runId).join(", ")}) before importing`,
+      yes,
+    );
+  }
+
+  let replaced: ReplacedRuns;
+  try {
+    replaced = await runInTransaction(ctx, async (txCtx) => {
+      const teacher = await verifyTeacher(txCtx);
+      const groups = await verifyGroups(txCtx);
+      const moduleIds = await verifyOrCreateModules(txCtx, teacher);
+      await enterPhase(txCtx, "cleanup");
+      const result = await cleanupRunsForGroups(txCtx, config.GROUP_IDS);
+      await importFixture(txCtx, fixture, groups, moduleIds, teacher);
+      return result;
+    });
+  } catch (err) {
+    console.error("\nRolled back: the local database is unchanged by this run.");
+    throw err;
+  }
+
+  const saved = saveManifest(ctx.manifest);
+  replaced.removed.forEach(deleteManifest);
+  console.log(`\nRecorded run ${ctx.manifest.runId} (${countRows(ctx.manifest)} rows) in ${saved}`);
+  console.log(`Imported ${file} (undo with: run.sh cleanup --run ${ctx.manifest.runId})`);
+  console.log("Pacing configs are not part of fixtures; run `run.sh --only pacing` to recreate them");
+}
+
+// =============================================================================
+// Run manifests: list-runs / cleanup
+// =============================================================================
+
+/**
+ * Print every recorded run, oldest first.
+ */
+function listRuns(): void {
+  const runs = listManifests();
+  if (runs.length === 0) {
+    console.log(`No seed runs recorded in ${getRunsDir()}`);
+    return;
+  }
+
+  console.log(`Recorded seed runs (${getRunsDir()}):\n`);
+  for (const run of runs) {
+    console.log(
+      `   ${run.runId}  created ${run.createdAt}  groups ${run.groupIds.join(",")}  ` +
+        `modules ${run.moduleIds.join(",")}  ${countRows(run)} rows  ` +
+        `phases ${Object.keys(run.rows).join(",") || "-"}`,
+    );
+  }
+}
+
+/**
+ * Delete one recorded run's rows (in a transaction), then its pacing configs and manifest.
+ */
+async function cleanupRecordedRun(ctx: SeedContext, runId: string, yes: boolean): Promise<void> {
+  const manifest = loadManifest(runId);
+  if (!manifest) {
+    console.error(`No recorded run with ID ${runId} (see: run.sh list-runs)`);
+    process.exit(1);
+  }
+  await confirmDestructive(`delete the ${countRows(manifest)} rows recorded by run ${runId}`, yes);
+
+  await runInTransaction(ctx, (txCtx) => cleanupRun(txCtx, manifest));
+
+  if (manifest.pacing.length > 0) {
+    const groupIds = [...new Set(manifest.pacing.map((p) => p.groupId))];
+    const moduleIds = [...new Set(manifest.pacing.map((p) => p.moduleId))];
+    await cleanupPacingData(ctx, groupIds, moduleIds);
+  }
+
+  deleteManifest(runId);
+  console.log(`\nRun ${runId} removed`);
+}
+
+// Parse CLI options, then run
+let cli: CliOptions;
+try {
+  cli = parseCliArgs(process.argv.slice(2));
+} catch (err) {
+  console.error(`Invalid arguments: ${(err as Error).message}\n`);
+  console.error(USAGE);
+  process.exit(1);
+}
+
+if (cli.help) {
+  console.log(USAGE);
+  process.exit(0);
+}
+
+async function main(cli: CliOptions): Promise<void> {
+  const ctx = createSeedContext(cli.config);
+
+  // Everything but list-runs and dry runs talks to the database
+  if (cli.command !== "list-runs" && !cli.config.DRY_RUN) {
+    assertLocalDatabase();
+  }
+
+  switch (cli.command) {
+    case "seed":
+      await seedSandboxData(ctx, cli.yes);
+      break;
+    case "advance":
+      await advanceSandbox(ctx);
+      break;
+    case "assessment":
+      await addSuccessAssessment(ctx);
+      break;
+    case "verify":
+      await verifySandbox(ctx);
+      break;
+    case "export":
+      await exportSandbox(ctx, cli.file!);
+      break;
+    case "import":
+      await importSandbox(ctx, cli.file!, cli.yes);
+      break;
+    case "list-runs":
+      listRuns();
+      break;
+    case "cleanup":
+      if (cli.legacy) {
+        await confirmDestructive(
+          `delete legacy seed data matching title/email patterns (groups ${cli.config.GROUP_IDS.join(",")})`,
+          cli.yes,
+        );
+        await runInTransaction(ctx, (txCtx) => cleanupLegacySeedData(txCtx, cli.config.GROUP_IDS));
+      } else {
+        await cleanupRecordedRun(ctx, cli.runId!, cli.yes);
+      }
+      break;
+  }
 
   process.exit(0);
 }
 
-// Run
-seedSandboxData().catch((err) => {
-  console.error("Seed failed:", err);
+main(cli).catch((err) => {
+  console.error(`${cli.command === "seed" ? "Seed" : cli.command} failed:`, err);
   process.exit(1);
 });